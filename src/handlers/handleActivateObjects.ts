@@ -0,0 +1,38 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { activateObjects, ObjectReference } from '../lib/activation';
+import { getObjectUri } from '../lib/objectTypes';
+
+export async function handleActivateObjects(args: any) {
+    try {
+        if (!Array.isArray(args?.objects) || args.objects.length === 0) {
+            throw new McpError(ErrorCode.InvalidParams, 'At least one object is required');
+        }
+
+        const references: ObjectReference[] = args.objects.map((object: any) => {
+            if (object?.uri) {
+                // Fall back to the last URI segment when no name is given
+                const name = object.name || decodeURIComponent(object.uri.split('/').pop());
+                return { uri: object.uri, name: name.toUpperCase() };
+            }
+            if (!object?.name || !object?.type) {
+                throw new McpError(ErrorCode.InvalidParams, 'Each object needs either a uri or a name and type');
+            }
+            return {
+                uri: getObjectUri(object.type, object.name, object.function_group),
+                name: object.name.toUpperCase()
+            };
+        });
+
+        const result = await activateObjects(references);
+        return {
+            isError: !result.activated,
+            content: [{
+                type: 'text',
+                text: JSON.stringify(result)
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
@@ -0,0 +1,32 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { alterDdicSource, validateFieldOperations, formatAlterResult } from '../lib/ddicSource';
+
+export async function handleAlterStructure(args: any) {
+    try {
+        if (!args?.structure_name) {
+            throw new McpError(ErrorCode.InvalidParams, 'Structure name is required');
+        }
+        validateFieldOperations(args.operations);
+
+        const structureName = args.structure_name.toUpperCase();
+        const result = await alterDdicSource({
+            uri: `/sap/bc/adt/ddic/structures/${encodeURIComponent(args.structure_name.toLowerCase())}`,
+            name: structureName,
+            isTable: false,
+            operations: args.operations,
+            transportRequest: args.transport_request,
+            activate: args.activate,
+            dryRun: args.dry_run
+        });
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: formatAlterResult(`Structure ${structureName}`, result)
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
@@ -0,0 +1,32 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { alterDdicSource, validateFieldOperations, formatAlterResult } from '../lib/ddicSource';
+
+export async function handleAlterTable(args: any) {
+    try {
+        if (!args?.table_name) {
+            throw new McpError(ErrorCode.InvalidParams, 'Table name is required');
+        }
+        validateFieldOperations(args.operations);
+
+        const tableName = args.table_name.toUpperCase();
+        const result = await alterDdicSource({
+            uri: `/sap/bc/adt/ddic/tables/${encodeURIComponent(args.table_name.toLowerCase())}`,
+            name: tableName,
+            isTable: true,
+            operations: args.operations,
+            transportRequest: args.transport_request,
+            activate: args.activate,
+            dryRun: args.dry_run
+        });
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: formatAlterResult(`Table ${tableName}`, result)
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
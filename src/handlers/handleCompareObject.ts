@@ -0,0 +1,69 @@
+/**
+ * Handler for comparing the source of an object between versions or systems
+ */
+
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error, runWithSystem, runWithConfig } from '../lib/utils';
+import { getSystemConfig } from '../lib/systems';
+import { getObjectUri } from '../lib/objectTypes';
+import { fetchSourceVersion } from '../lib/sourceFetch';
+import { unifiedDiff } from '../lib/diff';
+
+/**
+ * Handles the CompareObject tool request.
+ * The first side is read from the system of the tool call; the second side
+ * from compare_connection, compare_system or, if neither is given, the same
+ * system (to compare two versions).
+ */
+export async function handleCompareObject(args: any) {
+    try {
+        if (!args?.object_name || !args?.object_type) {
+            throw new McpError(ErrorCode.InvalidParams, 'Object name and type are required');
+        }
+        const connection = args.compare_connection;
+        if (connection && (!connection.url || !connection.username || !connection.password || !connection.client)) {
+            throw new McpError(ErrorCode.InvalidParams, 'compare_connection must define url, username, password and client');
+        }
+
+        const objectName = args.object_name.toUpperCase();
+        const objectUri = getObjectUri(args.object_type, args.object_name, args.function_group);
+        const version = String(args.version ?? 'active');
+        const compareVersion = String(args.compare_version ?? 'active');
+
+        const systemName = getSystemConfig(args.system).name;
+        let compareName = systemName;
+        let fetchCompare = () => fetchSourceVersion(objectUri, compareVersion);
+        if (connection) {
+            compareName = `${connection.url} (client ${connection.client})`;
+            const compareConfig = {
+                url: connection.url,
+                username: connection.username,
+                password: connection.password,
+                client: String(connection.client)
+            };
+            fetchCompare = () => runWithConfig(compareConfig, () => fetchSourceVersion(objectUri, compareVersion));
+        } else if (args.compare_system) {
+            compareName = getSystemConfig(args.compare_system).name;
+            fetchCompare = () => runWithSystem(args.compare_system, () => fetchSourceVersion(objectUri, compareVersion));
+        }
+
+        const [source, compareSource] = await Promise.all([
+            fetchSourceVersion(objectUri, version),
+            fetchCompare()
+        ]);
+
+        const fromLabel = `${systemName}:${objectName} (${version})`;
+        const toLabel = `${compareName}:${objectName} (${compareVersion})`;
+        const diff = unifiedDiff(source, compareSource, { fromLabel, toLabel });
+
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: diff || `No differences between ${fromLabel} and ${toLabel}`
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
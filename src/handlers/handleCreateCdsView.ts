@@ -0,0 +1,169 @@
+/**
+ * Handler for creating CDS views (DDL sources) via ADT REST API
+ */
+
+import { return_error } from '../lib/utils';
+import { escapeXml } from '../lib/adtXml';
+import { createObject, checkTransportRequest, coreAttributes, getCreateErrorMessage, isValidName } from '../lib/objectCreation';
+import { fetchSource } from '../lib/sourceFetch';
+import { listDdlFields } from '../lib/ddicSource';
+import { parseCdsSource } from '../lib/cdsParser';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface CreateCdsViewArgs {
+  view_name: string;
+  description: string;
+  package_name: string;
+  transport_request?: string;
+  ddl_source?: string;       // Either the complete DDL source ...
+  base_table?: string;       // ... or a table to generate a view entity over
+  fields?: string[];         // Table fields to select, default: all except the client
+}
+
+const CONTENT_TYPE = 'application/vnd.sap.adt.ddlSource+xml';
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the CreateCdsView tool request
+ */
+export async function handleCreateCdsView(args: any) {
+  const {
+    view_name,
+    description,
+    package_name,
+    transport_request = '',
+    ddl_source,
+    base_table,
+    fields
+  } = args as CreateCdsViewArgs;
+
+  // Validate inputs
+  if (!view_name || !isValidName(view_name) || view_name.length > 30) {
+    return return_error('A valid view name (max. 30 characters) is required');
+  }
+
+  if (!description) {
+    return return_error('Description is required');
+  }
+
+  if (!package_name) {
+    return return_error('Package name is required');
+  }
+
+  if (!ddl_source === !base_table) {
+    return return_error('Either a DDL source or a base table is required');
+  }
+
+  if (base_table && !isValidName(base_table)) {
+    return return_error(`Invalid base table name: ${base_table}`);
+  }
+
+  if (fields !== undefined && (!Array.isArray(fields) || fields.length === 0)) {
+    return return_error('Fields must be a non-empty list of table field names');
+  }
+
+  if (ddl_source) {
+    // The DDL source must define the view that is created
+    const definedName = parseCdsSource(ddl_source).name;
+    if (!definedName) {
+      return return_error('The DDL source contains no define statement');
+    }
+    if (definedName.toUpperCase() !== view_name.toUpperCase()) {
+      return return_error(`The DDL source defines ${definedName}, not ${view_name}`);
+    }
+  }
+
+  const transportError = checkTransportRequest(package_name, transport_request);
+  if (transportError) {
+    return return_error(transportError);
+  }
+
+  const viewNameUpper = view_name.toUpperCase();
+  const viewNameLower = view_name.toLowerCase();
+
+  try {
+    // Step 1: Use the given DDL source or generate one from the table fields
+    const sourceCode = ddl_source ?? await generateViewSource(view_name, description, base_table!, fields);
+
+    // Step 2: Generate metadata XML
+    const metadataXml = `<?xml version="1.0" encoding="UTF-8"?>
+<ddl:ddlSource xmlns:ddl="http://www.sap.com/adt/ddic/ddlsources"
+    xmlns:adtcore="http://www.sap.com/adt/core"
+    ${coreAttributes(viewNameUpper, description, 'DDLS/DF')}>
+  <adtcore:packageRef adtcore:name="${escapeXml(package_name.toUpperCase())}"/>
+</ddl:ddlSource>`;
+
+    // Step 3: Create the DDL source, upload the source and activate it
+    await createObject({
+      uri: `/sap/bc/adt/ddic/ddl/sources/${encodeURIComponent(viewNameLower)}`,
+      collectionUri: '/sap/bc/adt/ddic/ddl/sources',
+      name: viewNameUpper,
+      label: 'CDS view',
+      contentType: CONTENT_TYPE,
+      metadataXml,
+      source: sourceCode,
+      transportRequest: package_name.toUpperCase() !== '$TMP' ? transport_request : undefined
+    });
+
+    return {
+      isError: false,
+      content: [{
+        type: 'text',
+        text: `✅ CDS view ${viewNameUpper} created and activated successfully in package ${package_name.toUpperCase()}\n\n` +
+              `Generated Source Code:\n\`\`\`\n${sourceCode}\n\`\`\``
+      }]
+    };
+
+  } catch (error: any) {
+    return return_error(getCreateErrorMessage(error, 'CDS view', viewNameUpper));
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Generates a view entity selecting the given fields of a table, with
+ * CamelCase aliases (sales_order -> SalesOrder)
+ *
+ * @throws {Error} If a requested field does not exist in the table
+ */
+async function generateViewSource(
+  viewName: string,
+  description: string,
+  baseTable: string,
+  fieldNames?: string[]
+): Promise<string> {
+  const tableSource = await fetchSource(`/sap/bc/adt/ddic/tables/${encodeURIComponent(baseTable.toLowerCase())}`);
+  const tableFields = listDdlFields(tableSource);
+
+  let selected = tableFields.filter(field => !/^abap\.clnt$/i.test(field.type) && field.name.toUpperCase() !== 'MANDT');
+  if (fieldNames) {
+    const unknown = fieldNames.filter(name => !tableFields.some(field => field.name.toUpperCase() === name.toUpperCase()));
+    if (unknown.length > 0) {
+      throw new Error(`Table ${baseTable.toUpperCase()} has no field(s) ${unknown.join(', ')}`);
+    }
+    selected = tableFields.filter(field => fieldNames.some(name => name.toUpperCase() === field.name.toUpperCase()));
+  }
+
+  const elements = selected.map(field => {
+    const alias = field.name.toLowerCase().split(/[_\/]/).filter(Boolean)
+      .map(part => part.charAt(0).toUpperCase() + part.substring(1)).join('');
+    return `  ${field.isKey ? 'key ' : '    '}${field.name.toLowerCase()} as ${alias}`;
+  });
+
+  return `@AccessControl.authorizationCheck: #NOT_REQUIRED
+@EndUserText.label: '${description.replace(/'/g, "''")}'
+define view entity ${viewName}
+  as select from ${baseTable.toLowerCase()}
+{
+${elements.join(',\n')}
+}`;
+}
@@ -0,0 +1,266 @@
+/**
+ * Handler for creating ABAP classes via ADT REST API
+ */
+
+import { return_error } from '../lib/utils';
+import { escapeXml } from '../lib/adtXml';
+import { createObject, checkTransportRequest, coreAttributes, getCreateErrorMessage, isValidName } from '../lib/objectCreation';
+import { MethodDefinition, validateMethods, generateMethodDeclaration } from '../lib/ooTemplates';
+import { getClassOutline } from '../lib/objectOutline';
+import { fetchSource } from '../lib/sourceFetch';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface CreateClassArgs {
+  class_name: string;
+  description: string;
+  package_name: string;
+  transport_request?: string;
+  visibility?: 'public' | 'protected' | 'private';   // Instantiation: CREATE PUBLIC / PROTECTED / PRIVATE
+  final?: boolean;           // Default: true unless abstract
+  abstract?: boolean;
+  superclass?: string;
+  interfaces?: string[];
+  methods?: MethodDefinition[];
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the CreateClass tool request
+ */
+export async function handleCreateClass(args: any) {
+  const {
+    class_name,
+    description,
+    package_name,
+    transport_request = '',
+    visibility = 'public',
+    abstract = false,
+    final = !abstract,
+    superclass,
+    interfaces = [],
+    methods = []
+  } = args as CreateClassArgs;
+
+  // Validate inputs
+  if (!class_name || !isValidName(class_name)) {
+    return return_error('A valid class name is required');
+  }
+
+  if (!description) {
+    return return_error('Description is required');
+  }
+
+  if (!package_name) {
+    return return_error('Package name is required');
+  }
+
+  if (!['public', 'protected', 'private'].includes(visibility)) {
+    return return_error('Visibility must be public, protected or private');
+  }
+
+  if (final && abstract) {
+    return return_error('A class cannot be both final and abstract');
+  }
+
+  if (superclass && !isValidName(superclass)) {
+    return return_error(`Invalid superclass name: ${superclass}`);
+  }
+
+  if (!Array.isArray(interfaces) || interfaces.some(i => !isValidName(i))) {
+    return return_error('Interfaces must be a list of valid interface names');
+  }
+
+  if (!Array.isArray(methods)) {
+    return return_error('Methods must be a list of method definitions');
+  }
+
+  const methodError = validateMethods(methods, false);
+  if (methodError) {
+    return return_error(methodError);
+  }
+
+  if (!abstract && methods.some(m => m.isAbstract)) {
+    return return_error('Abstract methods require an abstract class (set abstract: true and final: false)');
+  }
+
+  const transportError = checkTransportRequest(package_name, transport_request);
+  if (transportError) {
+    return return_error(transportError);
+  }
+
+  const classNameUpper = class_name.toUpperCase();
+  const classNameLower = class_name.toLowerCase();
+
+  // Step 1: Read the interface methods the class has to implement
+  const interfaceMethods: string[] = [];
+  for (const intf of interfaces) {
+    try {
+      interfaceMethods.push(...await getInterfaceMethods(intf.toLowerCase(), new Set()));
+    } catch (error: any) {
+      return return_error(`Interface ${intf.toUpperCase()} could not be read: ${error?.message || error}`);
+    }
+  }
+
+  try {
+    // Step 2: Generate source code
+    const sourceCode = generateClassSource(classNameLower, {
+      visibility, final, abstract, superclass, interfaces, methods
+    }, [...new Set(interfaceMethods)]);
+
+    // Step 3: Generate metadata XML
+    const metadataXml = generateClassMetadataXml(
+      classNameUpper,
+      description,
+      package_name.toUpperCase(),
+      final,
+      abstract,
+      superclass
+    );
+
+    // Step 4: Create the class, upload the source code and activate it
+    await createObject({
+      uri: `/sap/bc/adt/oo/classes/${encodeURIComponent(classNameLower)}`,
+      collectionUri: '/sap/bc/adt/oo/classes',
+      name: classNameUpper,
+      label: 'Class',
+      contentType: 'application/vnd.sap.adt.oo.classes.v2+xml',
+      metadataXml,
+      source: sourceCode,
+      transportRequest: package_name.toUpperCase() !== '$TMP' ? transport_request : undefined
+    });
+
+    // Return success response
+    const successMessage = `✅ Class ${classNameUpper} created and activated successfully in package ${package_name.toUpperCase()}
+
+Generated Source Code:
+\`\`\`abap
+${sourceCode}
+\`\`\``;
+
+    return {
+      isError: false,
+      content: [{
+        type: 'text',
+        text: successMessage
+      }]
+    };
+
+  } catch (error: any) {
+    return return_error(getCreateErrorMessage(error, 'Class', classNameUpper));
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Lists the methods of an interface as intf~method, including the methods of
+ * its component interfaces, which a class implements as component~method
+ */
+async function getInterfaceMethods(interfaceName: string, seen: Set<string>): Promise<string[]> {
+  if (seen.has(interfaceName)) {
+    return [];
+  }
+  seen.add(interfaceName);
+
+  const uri = `/sap/bc/adt/oo/interfaces/${encodeURIComponent(interfaceName)}`;
+  const outline = await getClassOutline(uri);
+  const methods = outline.methods.map(m => `${interfaceName}~${m.name.toLowerCase()}`);
+
+  const source = await fetchSource(uri);
+  for (const match of source.matchAll(/^\s*INTERFACES\s+([\w\/]+)/gim)) {
+    methods.push(...await getInterfaceMethods(match[1].toLowerCase(), seen));
+  }
+  return methods;
+}
+
+/**
+ * Generates the class pool source: definition with one section per
+ * visibility and an empty implementation for every non-abstract method and
+ * every interface method
+ */
+function generateClassSource(
+  className: string,
+  options: Required<Pick<CreateClassArgs, 'visibility' | 'final' | 'abstract' | 'interfaces' | 'methods'>> & { superclass?: string },
+  interfaceMethods: string[]
+): string {
+  const header = [`CLASS ${className} DEFINITION`, '  PUBLIC'];
+  if (options.superclass) {
+    header.push(`  INHERITING FROM ${options.superclass.toLowerCase()}`);
+  }
+  if (options.final) {
+    header.push('  FINAL');
+  }
+  if (options.abstract) {
+    header.push('  ABSTRACT');
+  }
+  header.push(`  CREATE ${options.visibility.toUpperCase()} .`);
+
+  const sections: string[] = [];
+  for (const visibility of ['public', 'protected', 'private'] as const) {
+    const lines = [`  ${visibility.toUpperCase()} SECTION.`];
+    if (visibility === 'public') {
+      for (const intf of options.interfaces) {
+        lines.push(`    INTERFACES ${intf.toLowerCase()} .`);
+      }
+    }
+    const declarations = options.methods
+      .filter(m => (m.visibility || 'public') === visibility)
+      .map(m => generateMethodDeclaration(m, '    '));
+    if (declarations.length > 0) {
+      if (lines.length > 1) {
+        lines.push('');
+      }
+      lines.push(declarations.join('\n'));
+    }
+    sections.push(lines.join('\n'));
+  }
+
+  const implementations = [
+    ...interfaceMethods,
+    ...options.methods.filter(m => !m.isAbstract).map(m => m.name.toLowerCase())
+  ].map(name => `  METHOD ${name}.\n  ENDMETHOD.`);
+
+  return `${header.join('\n')}
+
+${sections.join('\n')}
+ENDCLASS.
+
+
+
+CLASS ${className} IMPLEMENTATION.
+${implementations.length > 0 ? `${implementations.join('\n\n')}\n` : ''}ENDCLASS.`;
+}
+
+/**
+ * Generates the metadata XML for class creation
+ */
+function generateClassMetadataXml(
+  className: string,
+  description: string,
+  packageName: string,
+  final: boolean,
+  abstract: boolean,
+  superclass?: string
+): string {
+  const superClassRef = superclass
+    ? `\n  <class:superClassRef adtcore:name="${escapeXml(superclass.toUpperCase())}"/>`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<class:abapClass xmlns:class="http://www.sap.com/adt/oo/classes"
+    xmlns:adtcore="http://www.sap.com/adt/core"
+    ${coreAttributes(className, description, 'CLAS/OC')}
+    class:final="${final}"
+    class:abstract="${abstract}"
+    class:visibility="public">
+  <adtcore:packageRef adtcore:name="${escapeXml(packageName)}"/>${superClassRef}
+</class:abapClass>`;
+}
@@ -0,0 +1,172 @@
+/**
+ * Handler for creating ABAP DDIC data elements via ADT REST API
+ */
+
+import { return_error } from '../lib/utils';
+import { escapeXml } from '../lib/adtXml';
+import { createObject, checkTransportRequest, coreAttributes, getCreateErrorMessage, isValidName } from '../lib/objectCreation';
+import { FieldLabels, LABEL_MAX_LENGTHS, FIXED_LENGTH_TYPES } from '../lib/ddicTypes';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface CreateDataElementArgs {
+  data_element_name: string;
+  description: string;
+  package_name: string;
+  transport_request?: string;
+  domain_name?: string;      // Either a domain ...
+  data_type?: string;        // ... or a built-in DDIC type with length and decimals
+  length?: number;
+  decimals?: number;
+  labels?: FieldLabels;      // Default: the description, cut to the label lengths
+  search_help?: string;
+  parameter_id?: string;     // SET/GET parameter
+}
+
+const CONTENT_TYPE = 'application/vnd.sap.adt.dataelements.v2+xml';
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the CreateDataElement tool request
+ */
+export async function handleCreateDataElement(args: any) {
+  const {
+    data_element_name,
+    description,
+    package_name,
+    transport_request = '',
+    domain_name,
+    data_type,
+    length,
+    decimals = 0,
+    labels = {},
+    search_help = '',
+    parameter_id = ''
+  } = args as CreateDataElementArgs;
+
+  // Validate inputs
+  if (!data_element_name || !isValidName(data_element_name)) {
+    return return_error('A valid data element name is required');
+  }
+
+  if (!description) {
+    return return_error('Description is required');
+  }
+
+  if (!package_name) {
+    return return_error('Package name is required');
+  }
+
+  if (!domain_name === !data_type) {
+    return return_error('Either a domain name or a data type is required');
+  }
+
+  if (domain_name && !isValidName(domain_name)) {
+    return return_error(`Invalid domain name: ${domain_name}`);
+  }
+
+  const dataType = data_type?.toUpperCase();
+  if (dataType && !FIXED_LENGTH_TYPES.includes(dataType) && !(Number.isInteger(length) && length! > 0)) {
+    return return_error(`Length is required for data type ${dataType}`);
+  }
+
+  // Labels default to the description, cut to the maximum lengths
+  const fieldLabels = {} as Required<FieldLabels>;
+  for (const [kind, maxLength] of Object.entries(LABEL_MAX_LENGTHS) as [keyof FieldLabels, number][]) {
+    const label = labels[kind] ?? description.substring(0, maxLength);
+    if (label.length > maxLength) {
+      return return_error(`The ${kind} field label must not exceed ${maxLength} characters`);
+    }
+    fieldLabels[kind] = label;
+  }
+
+  const transportError = checkTransportRequest(package_name, transport_request);
+  if (transportError) {
+    return return_error(transportError);
+  }
+
+  const dataElementNameUpper = data_element_name.toUpperCase();
+  const dataElementNameLower = data_element_name.toLowerCase();
+
+  try {
+    // Step 1: Generate metadata XML, once for creation and once with the complete definition
+    const header = {
+      name: dataElementNameUpper,
+      description,
+      packageName: package_name.toUpperCase()
+    };
+    const metadataXml = generateDataElementXml(header);
+
+    const typeDefinition = domain_name
+      ? `<dtel:typeKind>domain</dtel:typeKind>
+    <dtel:typeName>${escapeXml(domain_name.toUpperCase())}</dtel:typeName>
+    <dtel:dataType/>
+    <dtel:dataTypeLength>0</dtel:dataTypeLength>
+    <dtel:dataTypeDecimals>0</dtel:dataTypeDecimals>`
+      : `<dtel:typeKind>predefinedAbapType</dtel:typeKind>
+    <dtel:typeName/>
+    <dtel:dataType>${escapeXml(dataType!)}</dtel:dataType>
+    <dtel:dataTypeLength>${length ?? 0}</dtel:dataTypeLength>
+    <dtel:dataTypeDecimals>${decimals}</dtel:dataTypeDecimals>`;
+
+    const definitionXml = generateDataElementXml(header, `
+  <dtel:dataElement xmlns:dtel="http://www.sap.com/adt/dictionary/dataelements">
+    ${typeDefinition}
+    <dtel:shortFieldLabel>${escapeXml(fieldLabels.short)}</dtel:shortFieldLabel>
+    <dtel:shortFieldLength>${LABEL_MAX_LENGTHS.short}</dtel:shortFieldLength>
+    <dtel:mediumFieldLabel>${escapeXml(fieldLabels.medium)}</dtel:mediumFieldLabel>
+    <dtel:mediumFieldLength>${LABEL_MAX_LENGTHS.medium}</dtel:mediumFieldLength>
+    <dtel:longFieldLabel>${escapeXml(fieldLabels.long)}</dtel:longFieldLabel>
+    <dtel:longFieldLength>${LABEL_MAX_LENGTHS.long}</dtel:longFieldLength>
+    <dtel:headingFieldLabel>${escapeXml(fieldLabels.heading)}</dtel:headingFieldLabel>
+    <dtel:headingFieldLength>${LABEL_MAX_LENGTHS.heading}</dtel:headingFieldLength>
+    <dtel:searchHelp>${escapeXml(search_help.toUpperCase())}</dtel:searchHelp>
+    <dtel:setGetParameter>${escapeXml(parameter_id.toUpperCase())}</dtel:setGetParameter>
+  </dtel:dataElement>`);
+
+    // Step 2: Create the data element, write its definition and activate it
+    await createObject({
+      uri: `/sap/bc/adt/ddic/dataelements/${encodeURIComponent(dataElementNameLower)}`,
+      collectionUri: '/sap/bc/adt/ddic/dataelements',
+      name: dataElementNameUpper,
+      label: 'Data element',
+      contentType: CONTENT_TYPE,
+      metadataXml,
+      definitionXml,
+      transportRequest: package_name.toUpperCase() !== '$TMP' ? transport_request : undefined
+    });
+
+    const typeText = domain_name ? `domain ${domain_name.toUpperCase()}` : `type ${dataType}`;
+    return {
+      isError: false,
+      content: [{
+        type: 'text',
+        text: `✅ Data element ${dataElementNameUpper} (${typeText}) created and activated successfully in package ${package_name.toUpperCase()}`
+      }]
+    };
+
+  } catch (error: any) {
+    return return_error(getCreateErrorMessage(error, 'Data element', dataElementNameUpper));
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Generates the data element XML, with the given content for the complete definition
+ */
+function generateDataElementXml(header: { name: string; description: string; packageName: string }, content = ''): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<blue:wbobj xmlns:blue="http://www.sap.com/wbobj/dictionary/dtel"
+    xmlns:adtcore="http://www.sap.com/adt/core"
+    ${coreAttributes(header.name, header.description, 'DTEL/DE')}>
+  <adtcore:packageRef adtcore:name="${escapeXml(header.packageName)}"/>${content}
+</blue:wbobj>`;
+}
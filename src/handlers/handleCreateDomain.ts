@@ -0,0 +1,176 @@
+/**
+ * Handler for creating ABAP DDIC domains via ADT REST API
+ */
+
+import { return_error } from '../lib/utils';
+import { escapeXml } from '../lib/adtXml';
+import { createObject, checkTransportRequest, coreAttributes, getCreateErrorMessage, isValidName } from '../lib/objectCreation';
+import { FixedValue, FIXED_LENGTH_TYPES } from '../lib/ddicTypes';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface CreateDomainArgs {
+  domain_name: string;
+  description: string;
+  package_name: string;
+  transport_request?: string;
+  data_type: string;         // DDIC type, e.g. CHAR, NUMC, DEC, INT4, DATS
+  length?: number;           // Required unless the type has a fixed length
+  decimals?: number;
+  output_length?: number;    // Default: length
+  conversion_exit?: string;
+  lowercase?: boolean;
+  signed?: boolean;
+  fixed_values?: FixedValue[];
+  value_table?: string;
+}
+
+const CONTENT_TYPE = 'application/vnd.sap.adt.domains.v2+xml';
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the CreateDomain tool request
+ */
+export async function handleCreateDomain(args: any) {
+  const {
+    domain_name,
+    description,
+    package_name,
+    transport_request = '',
+    data_type,
+    length,
+    decimals = 0,
+    output_length,
+    conversion_exit = '',
+    lowercase = false,
+    signed = false,
+    fixed_values = [],
+    value_table = ''
+  } = args as CreateDomainArgs;
+
+  // Validate inputs
+  if (!domain_name || !isValidName(domain_name)) {
+    return return_error('A valid domain name is required');
+  }
+
+  if (!description) {
+    return return_error('Description is required');
+  }
+
+  if (!package_name) {
+    return return_error('Package name is required');
+  }
+
+  if (!data_type) {
+    return return_error('Data type is required');
+  }
+
+  const dataType = data_type.toUpperCase();
+  if (!FIXED_LENGTH_TYPES.includes(dataType) && !(Number.isInteger(length) && length! > 0)) {
+    return return_error(`Length is required for data type ${dataType}`);
+  }
+
+  if (!Number.isInteger(decimals) || decimals < 0 || (length !== undefined && decimals > length)) {
+    return return_error('Decimals must be between 0 and the length');
+  }
+
+  if (!Array.isArray(fixed_values) || fixed_values.some(v => v?.low === undefined || v.low === '')) {
+    return return_error('Each fixed value must have a low value');
+  }
+
+  if (value_table && !isValidName(value_table)) {
+    return return_error(`Invalid value table name: ${value_table}`);
+  }
+
+  const transportError = checkTransportRequest(package_name, transport_request);
+  if (transportError) {
+    return return_error(transportError);
+  }
+
+  const domainNameUpper = domain_name.toUpperCase();
+  const domainNameLower = domain_name.toLowerCase();
+
+  try {
+    // Step 1: Generate metadata XML, once for creation and once with the complete definition
+    const header = {
+      name: domainNameUpper,
+      description,
+      packageName: package_name.toUpperCase()
+    };
+    const metadataXml = generateDomainXml(header);
+    const definitionXml = generateDomainXml(header, `
+  <doma:content>
+    <doma:typeInformation>
+      <doma:datatype>${escapeXml(dataType)}</doma:datatype>
+      <doma:length>${length ?? 0}</doma:length>
+      <doma:decimals>${decimals}</doma:decimals>
+    </doma:typeInformation>
+    <doma:outputInformation>
+      <doma:length>${output_length ?? length ?? 0}</doma:length>
+      <doma:conversionExit>${escapeXml(conversion_exit.toUpperCase())}</doma:conversionExit>
+      <doma:signExists>${signed}</doma:signExists>
+      <doma:lowercase>${lowercase}</doma:lowercase>
+    </doma:outputInformation>
+    <doma:valueInformation>
+      <doma:valueTableRef adtcore:name="${escapeXml(value_table.toUpperCase())}"/>
+      <doma:fixValues>${generateFixedValues(fixed_values)}
+      </doma:fixValues>
+    </doma:valueInformation>
+  </doma:content>`);
+
+    // Step 2: Create the domain, write its definition and activate it
+    await createObject({
+      uri: `/sap/bc/adt/ddic/domains/${encodeURIComponent(domainNameLower)}`,
+      collectionUri: '/sap/bc/adt/ddic/domains',
+      name: domainNameUpper,
+      label: 'Domain',
+      contentType: CONTENT_TYPE,
+      metadataXml,
+      definitionXml,
+      transportRequest: package_name.toUpperCase() !== '$TMP' ? transport_request : undefined
+    });
+
+    const typeText = FIXED_LENGTH_TYPES.includes(dataType) ? dataType : `${dataType}(${length}${decimals ? `,${decimals}` : ''})`;
+    return {
+      isError: false,
+      content: [{
+        type: 'text',
+        text: `✅ Domain ${domainNameUpper} (${typeText}) created and activated successfully in package ${package_name.toUpperCase()}`
+      }]
+    };
+
+  } catch (error: any) {
+    return return_error(getCreateErrorMessage(error, 'Domain', domainNameUpper));
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Generates the domain XML, with the given content for the complete definition
+ */
+function generateDomainXml(header: { name: string; description: string; packageName: string }, content = ''): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<doma:domain xmlns:doma="http://www.sap.com/dictionary/domain"
+    xmlns:adtcore="http://www.sap.com/adt/core"
+    ${coreAttributes(header.name, header.description, 'DOMA/DD')}>
+  <adtcore:packageRef adtcore:name="${escapeXml(header.packageName)}"/>${content}
+</doma:domain>`;
+}
+
+function generateFixedValues(values: FixedValue[]): string {
+  return values.map((value, index) => `
+        <doma:fixValue>
+          <doma:position>${String(index + 1).padStart(4, '0')}</doma:position>
+          <doma:low>${escapeXml(String(value.low))}</doma:low>
+          <doma:high>${escapeXml(String(value.high ?? ''))}</doma:high>
+          <doma:text>${escapeXml(value.description ?? '')}</doma:text>
+        </doma:fixValue>`).join('');
+}
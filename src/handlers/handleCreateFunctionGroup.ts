@@ -0,0 +1,87 @@
+/**
+ * Handler for creating ABAP function groups via ADT REST API
+ */
+
+import { return_error } from '../lib/utils';
+import { escapeXml } from '../lib/adtXml';
+import { createObject, checkTransportRequest, coreAttributes, getCreateErrorMessage, isValidName } from '../lib/objectCreation';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface CreateFunctionGroupArgs {
+  function_group: string;
+  description: string;
+  package_name: string;
+  transport_request?: string;
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the CreateFunctionGroup tool request
+ */
+export async function handleCreateFunctionGroup(args: any) {
+  const {
+    function_group,
+    description,
+    package_name,
+    transport_request = ''
+  } = args as CreateFunctionGroupArgs;
+
+  // Validate inputs
+  if (!function_group || !isValidName(function_group)) {
+    return return_error('A valid function group name is required');
+  }
+
+  if (!description) {
+    return return_error('Description is required');
+  }
+
+  if (!package_name) {
+    return return_error('Package name is required');
+  }
+
+  const transportError = checkTransportRequest(package_name, transport_request);
+  if (transportError) {
+    return return_error(transportError);
+  }
+
+  const groupNameUpper = function_group.toUpperCase();
+  const groupNameLower = function_group.toLowerCase();
+
+  try {
+    // Step 1: Generate metadata XML
+    const metadataXml = `<?xml version="1.0" encoding="UTF-8"?>
+<group:abapFunctionGroup xmlns:group="http://www.sap.com/adt/functions/groups"
+    xmlns:adtcore="http://www.sap.com/adt/core"
+    ${coreAttributes(groupNameUpper, description, 'FUGR/F')}>
+  <adtcore:packageRef adtcore:name="${escapeXml(package_name.toUpperCase())}"/>
+</group:abapFunctionGroup>`;
+
+    // Step 2: Create the function group and activate it; the system generates its main program and includes
+    await createObject({
+      uri: `/sap/bc/adt/functions/groups/${encodeURIComponent(groupNameLower)}`,
+      collectionUri: '/sap/bc/adt/functions/groups',
+      name: groupNameUpper,
+      label: 'Function group',
+      contentType: 'application/vnd.sap.adt.functions.groups.v3+xml',
+      metadataXml,
+      transportRequest: package_name.toUpperCase() !== '$TMP' ? transport_request : undefined
+    });
+
+    return {
+      isError: false,
+      content: [{
+        type: 'text',
+        text: `✅ Function group ${groupNameUpper} created and activated successfully in package ${package_name.toUpperCase()}`
+      }]
+    };
+
+  } catch (error: any) {
+    return return_error(getCreateErrorMessage(error, 'Function group', groupNameUpper));
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Handler for creating ABAP function modules via ADT REST API
+ */
+
+import { return_error } from '../lib/utils';
+import { escapeXml } from '../lib/adtXml';
+import { createObject, getCreateErrorMessage, isValidName } from '../lib/objectCreation';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface FunctionParameter {
+  name: string;
+  kind?: 'importing' | 'exporting' | 'changing' | 'tables';   // Default: importing
+  type: string;           // Type after TYPE, or the line structure for tables parameters
+  optional?: boolean;
+  default?: string;       // Default value, implies optional (importing and changing only)
+  byValue?: boolean;      // VALUE(...) instead of REFERENCE(...), not for tables parameters
+}
+
+export interface CreateFunctionModuleArgs {
+  function_name: string;
+  function_group: string;
+  description: string;
+  transport_request?: string;
+  parameters?: FunctionParameter[];
+  exceptions?: string[];     // Classic exceptions for EXCEPTIONS
+  source_code?: string;      // Body between the signature and ENDFUNCTION
+}
+
+const PARAMETER_KINDS = ['importing', 'exporting', 'changing', 'tables'] as const;
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the CreateFunctionModule tool request
+ */
+export async function handleCreateFunctionModule(args: any) {
+  const {
+    function_name,
+    function_group,
+    description,
+    transport_request = '',
+    parameters = [],
+    exceptions = [],
+    source_code = ''
+  } = args as CreateFunctionModuleArgs;
+
+  // Validate inputs
+  if (!function_name || !isValidName(function_name)) {
+    return return_error('A valid function module name is required');
+  }
+
+  if (!function_group || !isValidName(function_group)) {
+    return return_error('A valid function group name is required');
+  }
+
+  if (!description) {
+    return return_error('Description is required');
+  }
+
+  if (!Array.isArray(parameters)) {
+    return return_error('Parameters must be a list of parameter definitions');
+  }
+
+  for (const parameter of parameters) {
+    if (!parameter?.name || !isValidName(parameter.name) || !parameter.type) {
+      return return_error('Each parameter must have a valid name and type');
+    }
+    if (parameter.kind && !PARAMETER_KINDS.includes(parameter.kind)) {
+      return return_error(`Parameter ${parameter.name}: kind must be importing, exporting, changing or tables`);
+    }
+    if (parameter.default !== undefined && !['importing', 'changing', undefined].includes(parameter.kind)) {
+      return return_error(`Parameter ${parameter.name}: only importing and changing parameters can have a default value`);
+    }
+  }
+
+  if (!Array.isArray(exceptions) || exceptions.some(e => !isValidName(e))) {
+    return return_error('Exceptions must be a list of valid exception names');
+  }
+
+  const functionNameUpper = function_name.toUpperCase();
+  const functionNameLower = function_name.toLowerCase();
+  const groupNameLower = function_group.toLowerCase();
+  const groupUri = `/sap/bc/adt/functions/groups/${encodeURIComponent(groupNameLower)}`;
+
+  try {
+    // Step 1: Generate source code
+    const sourceCode = generateFunctionSource(functionNameLower, parameters, exceptions, source_code);
+
+    // Step 2: Generate metadata XML; the package is inherited from the function group
+    const metadataXml = `<?xml version="1.0" encoding="UTF-8"?>
+<fmodule:abapFunctionModule xmlns:fmodule="http://www.sap.com/adt/functions/fmodules"
+    xmlns:adtcore="http://www.sap.com/adt/core"
+    adtcore:name="${escapeXml(functionNameUpper)}"
+    adtcore:type="FUGR/FF"
+    adtcore:description="${escapeXml(description)}">
+  <adtcore:containerRef adtcore:name="${escapeXml(function_group.toUpperCase())}" adtcore:type="FUGR/F" adtcore:uri="${groupUri}"/>
+</fmodule:abapFunctionModule>`;
+
+    // Step 3: Create the function module, upload the source code and activate it
+    await createObject({
+      uri: `${groupUri}/fmodules/${encodeURIComponent(functionNameLower)}`,
+      collectionUri: `${groupUri}/fmodules`,
+      name: functionNameUpper,
+      label: 'Function module',
+      contentType: 'application/vnd.sap.adt.functions.fmodules.v3+xml',
+      metadataXml,
+      source: sourceCode,
+      transportRequest: transport_request || undefined
+    });
+
+    // Return success response
+    const successMessage = `✅ Function module ${functionNameUpper} created and activated successfully in function group ${function_group.toUpperCase()}
+
+Generated Source Code:
+\`\`\`abap
+${sourceCode}
+\`\`\``;
+
+    return {
+      isError: false,
+      content: [{
+        type: 'text',
+        text: successMessage
+      }]
+    };
+
+  } catch (error: any) {
+    return return_error(getCreateErrorMessage(error, 'Function module', functionNameUpper));
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Generates the function module source with its signature in the FUNCTION statement
+ */
+function generateFunctionSource(
+  functionName: string,
+  parameters: FunctionParameter[],
+  exceptions: string[],
+  body: string
+): string {
+  const lines = [`FUNCTION ${functionName}`];
+
+  for (const kind of PARAMETER_KINDS) {
+    const ofKind = parameters.filter(p => (p.kind || 'importing') === kind);
+    if (ofKind.length === 0) {
+      continue;
+    }
+    lines.push(`  ${kind.toUpperCase()}`);
+    for (const parameter of ofKind) {
+      lines.push(`    ${formatParameter(parameter, kind)}`);
+    }
+  }
+
+  if (exceptions.length > 0) {
+    lines.push('  EXCEPTIONS');
+    for (const exception of exceptions) {
+      lines.push(`    ${exception.toUpperCase()}`);
+    }
+  }
+
+  // The signature ends with the period of the FUNCTION statement
+  lines[lines.length - 1] += '.';
+
+  return `${lines.join('\n')}
+${body ? `\n${body.replace(/\s+$/, '')}\n` : '\n'}
+ENDFUNCTION.`;
+}
+
+function formatParameter(parameter: FunctionParameter, kind: typeof PARAMETER_KINDS[number]): string {
+  const name = parameter.name.toUpperCase();
+  let declaration = kind === 'tables'
+    ? `${name} STRUCTURE ${parameter.type}`
+    : `${parameter.byValue ? 'VALUE' : 'REFERENCE'}(${name}) TYPE ${parameter.type}`;
+  if (parameter.default !== undefined) {
+    declaration += ` DEFAULT ${parameter.default}`;
+  } else if (parameter.optional) {
+    declaration += ' OPTIONAL';
+  }
+  return declaration;
+}
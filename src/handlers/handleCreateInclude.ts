@@ -0,0 +1,99 @@
+/**
+ * Handler for creating ABAP include programs via ADT REST API
+ */
+
+import { return_error } from '../lib/utils';
+import { escapeXml } from '../lib/adtXml';
+import { createObject, checkTransportRequest, coreAttributes, getCreateErrorMessage, isValidName } from '../lib/objectCreation';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface CreateIncludeArgs {
+  include_name: string;
+  description: string;
+  package_name: string;
+  transport_request?: string;
+  main_program?: string;     // Program the include is checked and activated in
+  source_code?: string;
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the CreateInclude tool request
+ */
+export async function handleCreateInclude(args: any) {
+  const {
+    include_name,
+    description,
+    package_name,
+    transport_request = '',
+    main_program,
+    source_code
+  } = args as CreateIncludeArgs;
+
+  // Validate inputs
+  if (!include_name || !isValidName(include_name)) {
+    return return_error('A valid include name is required');
+  }
+
+  if (!description) {
+    return return_error('Description is required');
+  }
+
+  if (!package_name) {
+    return return_error('Package name is required');
+  }
+
+  if (main_program && !isValidName(main_program)) {
+    return return_error(`Invalid main program name: ${main_program}`);
+  }
+
+  const transportError = checkTransportRequest(package_name, transport_request);
+  if (transportError) {
+    return return_error(transportError);
+  }
+
+  const includeNameUpper = include_name.toUpperCase();
+  const includeNameLower = include_name.toLowerCase();
+
+  try {
+    // Step 1: Generate metadata XML
+    const contextRef = main_program
+      ? `\n  <include:contextRef adtcore:name="${escapeXml(main_program.toUpperCase())}" adtcore:type="PROG/P" adtcore:uri="/sap/bc/adt/programs/programs/${encodeURIComponent(main_program.toLowerCase())}"/>`
+      : '';
+    const metadataXml = `<?xml version="1.0" encoding="UTF-8"?>
+<include:abapInclude xmlns:include="http://www.sap.com/adt/programs/includes"
+    xmlns:adtcore="http://www.sap.com/adt/core"
+    ${coreAttributes(includeNameUpper, description, 'PROG/I')}>
+  <adtcore:packageRef adtcore:name="${escapeXml(package_name.toUpperCase())}"/>${contextRef}
+</include:abapInclude>`;
+
+    // Step 2: Create the include, upload the source code and activate it
+    await createObject({
+      uri: `/sap/bc/adt/programs/includes/${encodeURIComponent(includeNameLower)}`,
+      collectionUri: '/sap/bc/adt/programs/includes',
+      name: includeNameUpper,
+      label: 'Include',
+      contentType: 'application/vnd.sap.adt.programs.includes.v2+xml',
+      metadataXml,
+      source: source_code,
+      transportRequest: package_name.toUpperCase() !== '$TMP' ? transport_request : undefined
+    });
+
+    return {
+      isError: false,
+      content: [{
+        type: 'text',
+        text: `✅ Include ${includeNameUpper} created and activated successfully in package ${package_name.toUpperCase()}`
+      }]
+    };
+
+  } catch (error: any) {
+    return return_error(getCreateErrorMessage(error, 'Include', includeNameUpper));
+  }
+}
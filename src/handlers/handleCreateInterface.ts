@@ -0,0 +1,139 @@
+/**
+ * Handler for creating ABAP interfaces via ADT REST API
+ */
+
+import { return_error } from '../lib/utils';
+import { escapeXml } from '../lib/adtXml';
+import { createObject, checkTransportRequest, coreAttributes, getCreateErrorMessage, isValidName } from '../lib/objectCreation';
+import { MethodDefinition, validateMethods, generateMethodDeclaration } from '../lib/ooTemplates';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface CreateInterfaceArgs {
+  interface_name: string;
+  description: string;
+  package_name: string;
+  transport_request?: string;
+  interfaces?: string[];     // Component interfaces included with INTERFACES
+  methods?: MethodDefinition[];
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the CreateInterface tool request
+ */
+export async function handleCreateInterface(args: any) {
+  const {
+    interface_name,
+    description,
+    package_name,
+    transport_request = '',
+    interfaces = [],
+    methods = []
+  } = args as CreateInterfaceArgs;
+
+  // Validate inputs
+  if (!interface_name || !isValidName(interface_name)) {
+    return return_error('A valid interface name is required');
+  }
+
+  if (!description) {
+    return return_error('Description is required');
+  }
+
+  if (!package_name) {
+    return return_error('Package name is required');
+  }
+
+  if (!Array.isArray(interfaces) || interfaces.some(i => !isValidName(i))) {
+    return return_error('Interfaces must be a list of valid interface names');
+  }
+
+  if (!Array.isArray(methods)) {
+    return return_error('Methods must be a list of method definitions');
+  }
+
+  const methodError = validateMethods(methods, true);
+  if (methodError) {
+    return return_error(methodError);
+  }
+
+  const transportError = checkTransportRequest(package_name, transport_request);
+  if (transportError) {
+    return return_error(transportError);
+  }
+
+  const interfaceNameUpper = interface_name.toUpperCase();
+  const interfaceNameLower = interface_name.toLowerCase();
+
+  try {
+    // Step 1: Generate source code
+    const sourceCode = generateInterfaceSource(interfaceNameLower, interfaces, methods);
+
+    // Step 2: Generate metadata XML
+    const metadataXml = `<?xml version="1.0" encoding="UTF-8"?>
+<intf:abapInterface xmlns:intf="http://www.sap.com/adt/oo/interfaces"
+    xmlns:adtcore="http://www.sap.com/adt/core"
+    ${coreAttributes(interfaceNameUpper, description, 'INTF/OI')}>
+  <adtcore:packageRef adtcore:name="${escapeXml(package_name.toUpperCase())}"/>
+</intf:abapInterface>`;
+
+    // Step 3: Create the interface, upload the source code and activate it
+    await createObject({
+      uri: `/sap/bc/adt/oo/interfaces/${encodeURIComponent(interfaceNameLower)}`,
+      collectionUri: '/sap/bc/adt/oo/interfaces',
+      name: interfaceNameUpper,
+      label: 'Interface',
+      contentType: 'application/vnd.sap.adt.oo.interfaces.v2+xml',
+      metadataXml,
+      source: sourceCode,
+      transportRequest: package_name.toUpperCase() !== '$TMP' ? transport_request : undefined
+    });
+
+    // Return success response
+    const successMessage = `✅ Interface ${interfaceNameUpper} created and activated successfully in package ${package_name.toUpperCase()}
+
+Generated Source Code:
+\`\`\`abap
+${sourceCode}
+\`\`\``;
+
+    return {
+      isError: false,
+      content: [{
+        type: 'text',
+        text: successMessage
+      }]
+    };
+
+  } catch (error: any) {
+    return return_error(getCreateErrorMessage(error, 'Interface', interfaceNameUpper));
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Generates the interface pool source
+ */
+function generateInterfaceSource(interfaceName: string, interfaces: string[], methods: MethodDefinition[]): string {
+  const lines = [`INTERFACE ${interfaceName}`, '  PUBLIC .', ''];
+  for (const intf of interfaces) {
+    lines.push(`  INTERFACES ${intf.toLowerCase()} .`);
+  }
+  if (interfaces.length > 0 && methods.length > 0) {
+    lines.push('');
+  }
+  for (const method of methods) {
+    lines.push(generateMethodDeclaration(method, '  '));
+  }
+  lines.push('ENDINTERFACE.');
+  return lines.join('\n');
+}
@@ -0,0 +1,101 @@
+/**
+ * Handler for creating ABAP executable programs via ADT REST API
+ */
+
+import { return_error } from '../lib/utils';
+import { escapeXml } from '../lib/adtXml';
+import { createObject, checkTransportRequest, coreAttributes, getCreateErrorMessage, isValidName } from '../lib/objectCreation';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface CreateProgramArgs {
+  program_name: string;
+  description: string;
+  package_name: string;
+  transport_request?: string;
+  source_code?: string;      // Initial source, default: REPORT statement only
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the CreateProgram tool request
+ */
+export async function handleCreateProgram(args: any) {
+  const {
+    program_name,
+    description,
+    package_name,
+    transport_request = '',
+    source_code
+  } = args as CreateProgramArgs;
+
+  // Validate inputs
+  if (!program_name || !isValidName(program_name)) {
+    return return_error('A valid program name is required');
+  }
+
+  if (!description) {
+    return return_error('Description is required');
+  }
+
+  if (!package_name) {
+    return return_error('Package name is required');
+  }
+
+  const transportError = checkTransportRequest(package_name, transport_request);
+  if (transportError) {
+    return return_error(transportError);
+  }
+
+  const programNameUpper = program_name.toUpperCase();
+  const programNameLower = program_name.toLowerCase();
+
+  try {
+    // Step 1: Generate source code
+    const sourceCode = source_code || `REPORT ${programNameLower}.\n`;
+
+    // Step 2: Generate metadata XML
+    const metadataXml = `<?xml version="1.0" encoding="UTF-8"?>
+<program:abapProgram xmlns:program="http://www.sap.com/adt/programs/programs"
+    xmlns:adtcore="http://www.sap.com/adt/core"
+    ${coreAttributes(programNameUpper, description, 'PROG/P')}>
+  <adtcore:packageRef adtcore:name="${escapeXml(package_name.toUpperCase())}"/>
+</program:abapProgram>`;
+
+    // Step 3: Create the program, upload the source code and activate it
+    await createObject({
+      uri: `/sap/bc/adt/programs/programs/${encodeURIComponent(programNameLower)}`,
+      collectionUri: '/sap/bc/adt/programs/programs',
+      name: programNameUpper,
+      label: 'Program',
+      contentType: 'application/vnd.sap.adt.programs.programs.v2+xml',
+      metadataXml,
+      source: sourceCode,
+      transportRequest: package_name.toUpperCase() !== '$TMP' ? transport_request : undefined
+    });
+
+    // Return success response
+    const successMessage = `✅ Program ${programNameUpper} created and activated successfully in package ${package_name.toUpperCase()}
+
+Source Code:
+\`\`\`abap
+${sourceCode}
+\`\`\``;
+
+    return {
+      isError: false,
+      content: [{
+        type: 'text',
+        text: successMessage
+      }]
+    };
+
+  } catch (error: any) {
+    return return_error(getCreateErrorMessage(error, 'Program', programNameUpper));
+  }
+}
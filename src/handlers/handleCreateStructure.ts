@@ -3,7 +3,8 @@
  */
 
 import axios from 'axios';
-import { getBaseUrl, getAuthHeaders, return_error, return_response } from '../lib/utils';
+import { getBaseUrl, getSapConfig, makeAdtRequest, return_error } from '../lib/utils';
+import { activateObject, formatActivationResult } from '../lib/activation';
 
 // ============================================================================
 // Type Definitions
@@ -73,13 +74,9 @@ export async function handleCreateStructure(args: any) {
   const structNameLower = structure_name.toLowerCase();
 
   try {
-    const baseUrl = getBaseUrl();
-    const authHeaders = getAuthHeaders();
+    const baseUrl = (await getBaseUrl()).toString();
 
-    // Step 1: Get CSRF token
-    const csrfToken = await fetchCsrfToken(baseUrl, authHeaders);
-
-    // Step 2: Generate source code
+    // Step 1: Generate source code
     const sourceCode = generateStructureSource(
       structNameLower,
       description,
@@ -87,14 +84,14 @@ export async function handleCreateStructure(args: any) {
       enhancement_category
     );
 
-    // Step 3: Generate metadata XML
+    // Step 2: Generate metadata XML
     const metadataXml = generateStructureMetadataXml(
       structNameUpper,
       description,
       package_name.toUpperCase()
     );
 
-    // Step 4: Create the structure object
+    // Step 3: Create the structure object
     const createUrl = `${baseUrl}/sap/bc/adt/ddic/structures`;
     const createParams: Record<string, string> = {};
 
@@ -102,30 +99,23 @@ export async function handleCreateStructure(args: any) {
       createParams['corrNr'] = transport_request;
     }
 
-    await axios.post(createUrl, metadataXml, {
-      headers: {
-        ...authHeaders,
-        'Content-Type': 'application/vnd.sap.adt.structures.v2+xml',
-        'X-CSRF-Token': csrfToken,
-        'Accept': 'application/vnd.sap.adt.structures.v2+xml, application/xml'
-      },
-      params: createParams
+    await makeAdtRequest(createUrl, 'POST', 30000, metadataXml, createParams, {
+      'Content-Type': 'application/vnd.sap.adt.structures.v2+xml',
+      'Accept': 'application/vnd.sap.adt.structures.v2+xml, application/xml'
     });
 
-    // Step 5: Upload the source code
+    // Step 4: Upload the source code
     const sourceUrl = `${baseUrl}/sap/bc/adt/ddic/structures/${structNameLower}/source/main`;
 
-    await axios.put(sourceUrl, sourceCode, {
-      headers: {
-        ...authHeaders,
-        'Content-Type': 'text/plain; charset=utf-8',
-        'X-CSRF-Token': csrfToken
-      },
-      params: createParams
+    await makeAdtRequest(sourceUrl, 'PUT', 30000, sourceCode, createParams, {
+      'Content-Type': 'text/plain; charset=utf-8'
     });
 
-    // Step 6: Activate the structure
-    await activateObject(baseUrl, authHeaders, csrfToken, structNameLower, structNameUpper);
+    // Step 5: Activate the structure
+    const activation = await activateObject(`/sap/bc/adt/ddic/structures/${structNameLower}`, structNameUpper);
+    if (!activation.activated) {
+      return return_error(`Structure ${structNameUpper} was created but activation failed:\n${formatActivationResult(activation)}`);
+    }
 
     // Return success response
     const successMessage = `✅ Structure ${structNameUpper} created and activated successfully in package ${package_name.toUpperCase()}
@@ -135,7 +125,13 @@ Generated Source Code:
 ${sourceCode}
 \`\`\``;
 
-    return return_response(successMessage);
+    return {
+      isError: false,
+      content: [{
+        type: 'text',
+        text: successMessage
+      }]
+    };
 
   } catch (error: any) {
     // Handle specific error cases
@@ -184,26 +180,6 @@ ${sourceCode}
 // Helper Functions
 // ============================================================================
 
-/**
- * Fetches a CSRF token from the SAP system
- */
-async function fetchCsrfToken(baseUrl: string, authHeaders: any): Promise<string> {
-  const response = await axios.get(`${baseUrl}/sap/bc/adt/discovery`, {
-    headers: {
-      ...authHeaders,
-      'X-CSRF-Token': 'Fetch',
-      'Accept': 'application/xml'
-    }
-  });
-
-  const csrfToken = response.headers['x-csrf-token'];
-  if (!csrfToken) {
-    throw new Error('Failed to obtain CSRF token from SAP system');
-  }
-
-  return csrfToken;
-}
-
 /**
  * Generates the Dictionary DDL source code for a structure
  */
@@ -239,8 +215,8 @@ function generateStructureMetadataXml(
   // Escape XML special characters in description
   const escapedDescription = escapeXml(description);
 
-  // Get username from environment for responsible field
-  const responsible = process.env.SAP_USERNAME?.toUpperCase() || 'SAP';
+  // Get username of the target system for responsible field
+  const responsible = getSapConfig().username.toUpperCase();
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <structure:structure xmlns:structure="http://www.sap.com/adt/ddic/structures"
@@ -255,37 +231,6 @@ function generateStructureMetadataXml(
 </structure:structure>`;
 }
 
-/**
- * Activates an ABAP object
- */
-async function activateObject(
-  baseUrl: string,
-  authHeaders: any,
-  csrfToken: string,
-  structNameLower: string,
-  structNameUpper: string
-): Promise<void> {
-  const activateUrl = `${baseUrl}/sap/bc/adt/activation`;
-
-  const activationBody = `<?xml version="1.0" encoding="UTF-8"?>
-<adtcore:objectReferences xmlns:adtcore="http://www.sap.com/adt/core">
-  <adtcore:objectReference adtcore:uri="/sap/bc/adt/ddic/structures/${structNameLower}" adtcore:name="${structNameUpper}"/>
-</adtcore:objectReferences>`;
-
-  await axios.post(activateUrl, activationBody, {
-    headers: {
-      ...authHeaders,
-      'Content-Type': 'application/xml',
-      'X-CSRF-Token': csrfToken,
-      'Accept': 'application/xml'
-    },
-    params: {
-      'method': 'activate',
-      'preauditRequested': 'true'
-    }
-  });
-}
-
 /**
  * Escapes XML special characters
  */
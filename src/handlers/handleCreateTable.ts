@@ -3,7 +3,8 @@
  */
 
 import axios from 'axios';
-import { getBaseUrl, getAuthHeaders, return_error } from '../lib/utils';
+import { getBaseUrl, getSapConfig, makeAdtRequest, return_error } from '../lib/utils';
+import { activateObject, formatActivationResult } from '../lib/activation';
 
 // ============================================================================
 // Type Definitions
@@ -90,12 +91,8 @@ export async function handleCreateTable(args: any) {
 
   try {
     const baseUrl = await getBaseUrl();
-    const authHeaders = await getAuthHeaders();
 
-    // Step 1: Get CSRF token
-    const csrfToken = await fetchCsrfToken(baseUrl.toString(), authHeaders);
-
-    // Step 2: Generate source code
+    // Step 1: Generate source code
     const sourceCode = generateTableSource(
       tableNameLower,
       description,
@@ -107,14 +104,14 @@ export async function handleCreateTable(args: any) {
       include_client
     );
 
-    // Step 3: Generate metadata XML
+    // Step 2: Generate metadata XML
     const metadataXml = generateTableMetadataXml(
       tableNameUpper,
       description,
       package_name.toUpperCase()
     );
 
-    // Step 4: Create the table object
+    // Step 3: Create the table object
     const baseUrlStr = baseUrl.toString();
     const createUrl = `${baseUrlStr}/sap/bc/adt/ddic/tables`;
     const createParams: Record<string, string> = {};
@@ -123,30 +120,23 @@ export async function handleCreateTable(args: any) {
       createParams['corrNr'] = transport_request;
     }
 
-    await axios.post(createUrl, metadataXml, {
-      headers: {
-        ...authHeaders,
-        'Content-Type': 'application/vnd.sap.adt.tables.v2+xml',
-        'X-CSRF-Token': csrfToken,
-        'Accept': 'application/vnd.sap.adt.tables.v2+xml, application/xml'
-      },
-      params: createParams
+    await makeAdtRequest(createUrl, 'POST', 30000, metadataXml, createParams, {
+      'Content-Type': 'application/vnd.sap.adt.tables.v2+xml',
+      'Accept': 'application/vnd.sap.adt.tables.v2+xml, application/xml'
     });
 
-    // Step 5: Upload the source code
+    // Step 4: Upload the source code
     const sourceUrl = `${baseUrlStr}/sap/bc/adt/ddic/tables/${tableNameLower}/source/main`;
 
-    await axios.put(sourceUrl, sourceCode, {
-      headers: {
-        ...authHeaders,
-        'Content-Type': 'text/plain; charset=utf-8',
-        'X-CSRF-Token': csrfToken
-      },
-      params: createParams
+    await makeAdtRequest(sourceUrl, 'PUT', 30000, sourceCode, createParams, {
+      'Content-Type': 'text/plain; charset=utf-8'
     });
 
-    // Step 6: Activate the table
-    await activateObject(baseUrlStr, authHeaders, csrfToken, tableNameLower, tableNameUpper);
+    // Step 5: Activate the table
+    const activation = await activateObject(`/sap/bc/adt/ddic/tables/${tableNameLower}`, tableNameUpper);
+    if (!activation.activated) {
+      return return_error(`Table ${tableNameUpper} was created but activation failed:\n${formatActivationResult(activation)}`);
+    }
 
     // Return success response
     const successMessage = `✅ Database table ${tableNameUpper} created and activated successfully in package ${package_name.toUpperCase()}
@@ -211,26 +201,6 @@ ${sourceCode}
 // Helper Functions
 // ============================================================================
 
-/**
- * Fetches a CSRF token from the SAP system
- */
-async function fetchCsrfToken(baseUrl: string, authHeaders: any): Promise<string> {
-  const response = await axios.get(`${baseUrl}/sap/bc/adt/discovery`, {
-    headers: {
-      ...authHeaders,
-      'X-CSRF-Token': 'Fetch',
-      'Accept': 'application/xml'
-    }
-  });
-
-  const csrfToken = response.headers['x-csrf-token'];
-  if (!csrfToken) {
-    throw new Error('Failed to obtain CSRF token from SAP system');
-  }
-
-  return csrfToken;
-}
-
 /**
  * Generates the Dictionary DDL source code for a database table
  */
@@ -285,8 +255,8 @@ function generateTableMetadataXml(
   // Escape XML special characters in description
   const escapedDescription = escapeXml(description);
 
-  // Get username from environment for responsible field
-  const responsible = process.env.SAP_USERNAME?.toUpperCase() || 'SAP';
+  // Get username of the target system for responsible field
+  const responsible = getSapConfig().username.toUpperCase();
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <blue:blueSource xmlns:blue="http://www.sap.com/wbobj/blue"
@@ -300,37 +270,6 @@ function generateTableMetadataXml(
 </blue:blueSource>`;
 }
 
-/**
- * Activates an ABAP object
- */
-async function activateObject(
-  baseUrl: string,
-  authHeaders: any,
-  csrfToken: string,
-  tableNameLower: string,
-  tableNameUpper: string
-): Promise<void> {
-  const activateUrl = `${baseUrl}/sap/bc/adt/activation`;
-
-  const activationBody = `<?xml version="1.0" encoding="UTF-8"?>
-<adtcore:objectReferences xmlns:adtcore="http://www.sap.com/adt/core">
-  <adtcore:objectReference adtcore:uri="/sap/bc/adt/ddic/tables/${tableNameLower}" adtcore:name="${tableNameUpper}"/>
-</adtcore:objectReferences>`;
-
-  await axios.post(activateUrl, activationBody, {
-    headers: {
-      ...authHeaders,
-      'Content-Type': 'application/xml',
-      'X-CSRF-Token': csrfToken,
-      'Accept': 'application/xml'
-    },
-    params: {
-      'method': 'activate',
-      'preauditRequested': 'true'
-    }
-  });
-}
-
 /**
  * Escapes XML special characters
  */
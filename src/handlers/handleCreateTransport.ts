@@ -0,0 +1,28 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { createTransport } from '../lib/transports';
+
+export async function handleCreateTransport(args: any) {
+    try {
+        if (!args?.package_name) {
+            throw new McpError(ErrorCode.InvalidParams, 'Package name is required');
+        }
+        if (!args?.description) {
+            throw new McpError(ErrorCode.InvalidParams, 'Description is required');
+        }
+        if (String(args.package_name).toUpperCase() === '$TMP') {
+            throw new McpError(ErrorCode.InvalidParams, 'Objects in $TMP are local and need no transport request');
+        }
+
+        const transportNumber = await createTransport(args.package_name, args.description, args.object_uri);
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify({ transportNumber, package: String(args.package_name).toUpperCase(), description: args.description })
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
@@ -0,0 +1,144 @@
+import { handleDeleteObject } from './handleDeleteObject';
+import { makeAdtRequest } from '../lib/utils';
+
+jest.mock('../lib/utils', () => ({
+  ...jest.requireActual('../lib/utils'),
+  makeAdtRequest: jest.fn(),
+  getBaseUrl: jest.fn(async () => 'https://sap.example.com')
+}));
+
+const makeAdtRequestMock = makeAdtRequest as jest.MockedFunction<typeof makeAdtRequest>;
+
+const CLASS_URI = '/sap/bc/adt/oo/classes/zcl_order';
+
+const METADATA = `<class:abapClass xmlns:class="http://www.sap.com/adt/oo/classes" xmlns:adtcore="http://www.sap.com/adt/core" adtcore:name="ZCL_ORDER">
+  <adtcore:packageRef adtcore:name="ZSALES"/>
+</class:abapClass>`;
+
+const LOCK_RESULT = `<asx:abap xmlns:asx="http://www.sap.com/abapxml"><asx:values><DATA><LOCK_HANDLE>LOCK1</LOCK_HANDLE><CORRNR>DEVK900001</CORRNR></DATA></asx:values></asx:abap>`;
+
+// Where-used result with one referencing object per URI
+const usageReferences = (...uris: string[]) => `<usageReferences:usageReferenceResult xmlns:usageReferences="http://www.sap.com/adt/ris/usageReferences" xmlns:adtcore="http://www.sap.com/adt/core">
+  <usageReferences:referencedObjects>
+    ${uris.map(uri => `<usageReferences:referencedObject uri="${uri}" isResult="true">
+      <usageReferences:adtObject adtcore:name="${uri.split('/').pop()!.toUpperCase()}" adtcore:type="CLAS/OC">
+        <adtcore:packageRef adtcore:name="ZSALES"/>
+      </usageReferences:adtObject>
+    </usageReferences:referencedObject>`).join('\n')}
+  </usageReferences:referencedObjects>
+</usageReferences:usageReferenceResult>`;
+
+/**
+ * Answers the requests of the delete flow; returns the recorded calls as "METHOD path action"
+ */
+function mockSystem(references: string[], options: { deleteError?: Error } = {}): string[] {
+  const calls: string[] = [];
+  makeAdtRequestMock.mockImplementation(async (url, method, _timeout, _data, params) => {
+    const path = String(url).replace('https://sap.example.com', '');
+    calls.push(`${method} ${path}${params?._action ? ` ${params._action}` : ''}`);
+    if (path.endsWith('/usageReferences')) {
+      return { data: usageReferences(...references) } as any;
+    }
+    if (method === 'GET') {
+      return { data: METADATA } as any;
+    }
+    if (method === 'POST' && params?._action === 'LOCK') {
+      return { data: LOCK_RESULT } as any;
+    }
+    if (method === 'DELETE' && options.deleteError) {
+      throw options.deleteError;
+    }
+    return { data: '' } as any;
+  });
+  return calls;
+}
+
+describe('handleDeleteObject', () => {
+  beforeEach(() => {
+    makeAdtRequestMock.mockReset();
+  });
+
+  it('refuses to delete a referenced object and lists the references', async () => {
+    const calls = mockSystem(['/sap/bc/adt/programs/programs/zorder_report']);
+
+    const result = await handleDeleteObject({ object_name: 'zcl_order', object_type: 'CLAS', transport_request: 'DEVK900001' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('ZCL_ORDER is still used by 1 object(s)');
+    expect(result.content[0].text).toContain('- ZORDER_REPORT (CLAS/OC) in package ZSALES');
+    expect(calls.some(call => call.startsWith('DELETE') || call.endsWith('LOCK'))).toBe(false);
+  });
+
+  it('treats objects whose name extends the target name as real references', async () => {
+    const calls = mockSystem([
+      '/sap/bc/adt/oo/classes/zcl_order_item',
+      '/sap/bc/adt/oo/classes/zcl_order_v2/source/main#start=12,4'
+    ]);
+
+    const result = await handleDeleteObject({ object_name: 'ZCL_ORDER', object_type: 'CLAS', transport_request: 'DEVK900001' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('ZCL_ORDER is still used by 2 object(s)');
+    expect(calls.some(call => call.startsWith('DELETE'))).toBe(false);
+  });
+
+  it('deletes an object referenced only by itself and its own includes', async () => {
+    const calls = mockSystem([
+      CLASS_URI,
+      `${CLASS_URI}#start=30,4`,
+      `${CLASS_URI}?context=main`,
+      `${CLASS_URI}/includes/testclasses#start=5,0`
+    ]);
+
+    const result = await handleDeleteObject({ object_name: 'ZCL_ORDER', object_type: 'CLAS', transport_request: 'DEVK900001' });
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0].text).toContain('ZCL_ORDER deleted successfully from package ZSALES');
+    expect(calls).toEqual([
+      `GET ${CLASS_URI}`,
+      'POST /sap/bc/adt/repository/informationsystem/usageReferences',
+      `POST ${CLASS_URI} LOCK`,
+      `DELETE ${CLASS_URI}`
+    ]);
+    expect(makeAdtRequestMock).toHaveBeenCalledWith(
+      `https://sap.example.com${CLASS_URI}`, 'DELETE', 30000, undefined,
+      { lockHandle: 'LOCK1', corrNr: 'DEVK900001' },
+      { 'X-sap-adt-sessiontype': 'stateful' }
+    );
+  });
+
+  it('skips the where-used check with force', async () => {
+    const calls = mockSystem(['/sap/bc/adt/programs/programs/zorder_report']);
+
+    const result = await handleDeleteObject({ object_name: 'ZCL_ORDER', object_type: 'CLAS', transport_request: 'DEVK900001', force: true });
+
+    expect(result.isError).toBe(false);
+    expect(calls.some(call => call.includes('usageReferences'))).toBe(false);
+    expect(calls).toContain(`DELETE ${CLASS_URI}`);
+  });
+
+  it('releases the lock and reports the error when the DELETE fails', async () => {
+    const calls = mockSystem([], { deleteError: new Error('Object is in use by another user') });
+
+    const result = await handleDeleteObject({ object_name: 'ZCL_ORDER', object_type: 'CLAS', transport_request: 'DEVK900001' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Object is in use by another user');
+    expect(calls.slice(-2)).toEqual([`DELETE ${CLASS_URI}`, `POST ${CLASS_URI} UNLOCK`]);
+    expect(makeAdtRequestMock).toHaveBeenLastCalledWith(
+      `https://sap.example.com${CLASS_URI}`, 'POST', 30000, undefined,
+      { _action: 'UNLOCK', lockHandle: 'LOCK1' },
+      { 'X-sap-adt-sessiontype': 'stateful' }
+    );
+  });
+
+  it('requires a transport request for non-local packages', async () => {
+    const calls = mockSystem([]);
+
+    const result = await handleDeleteObject({ object_name: 'ZCL_ORDER', object_type: 'CLAS' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('ZCL_ORDER is in package ZSALES');
+    expect(calls).toEqual([`GET ${CLASS_URI}`]);
+  });
+});
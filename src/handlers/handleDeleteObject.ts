@@ -0,0 +1,67 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { makeAdtRequest, return_error, getBaseUrl } from '../lib/utils';
+import { getObjectUri } from '../lib/objectTypes';
+import { findUsageReferences } from '../lib/whereUsed';
+import { checkTransportRequest } from '../lib/objectCreation';
+import { deleteObject } from '../lib/sourceUpdate';
+
+// Number of referencing objects listed when the deletion is refused
+const MAX_LISTED_REFERENCES = 20;
+
+export async function handleDeleteObject(args: any) {
+    try {
+        if (!args?.object_name || !args?.object_type) {
+            throw new McpError(ErrorCode.InvalidParams, 'Object name and type are required');
+        }
+        const objectName = args.object_name.toUpperCase();
+        const objectUri = getObjectUri(args.object_type, args.object_name, args.function_group);
+
+        // Function modules are transported with their function group
+        const packageName = await getPackageName(objectUri.replace(/\/fmodules\/[^/]+$/, ''));
+        const transportError = checkTransportRequest(packageName, args.transport_request);
+        if (transportError) {
+            throw new McpError(ErrorCode.InvalidParams, `${objectName} is in package ${packageName}: ${transportError}`);
+        }
+
+        if (!args.force) {
+            // References from the object itself and its own parts (e.g. class includes) do not
+            // block the deletion; objects whose names merely extend it (zcl_order_item) do
+            const references = (await findUsageReferences(objectUri)).filter(reference => {
+                const uri = reference.uri?.replace(/[?#].*$/, '');
+                return uri !== objectUri && !uri?.startsWith(`${objectUri}/`);
+            });
+            if (references.length > 0) {
+                const listed = references.slice(0, MAX_LISTED_REFERENCES)
+                    .map(reference => `- ${reference.name} (${reference.type})${reference.packageName ? ` in package ${reference.packageName}` : ''}`);
+                if (references.length > MAX_LISTED_REFERENCES) {
+                    listed.push(`- ... and ${references.length - MAX_LISTED_REFERENCES} more`);
+                }
+                return return_error(`${objectName} is still used by ${references.length} object(s):\n${listed.join('\n')}\n\n` +
+                    'Remove the references first, or set force to delete it anyway.');
+            }
+        }
+
+        await deleteObject(objectUri, args.transport_request);
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: `✅ ${objectName} deleted successfully from package ${packageName}`
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
+
+/**
+ * Reads the package of an object from its ADT metadata
+ */
+async function getPackageName(objectUri: string): Promise<string> {
+    const response = await makeAdtRequest(`${await getBaseUrl()}${objectUri}`, 'GET', 30000);
+    const match = String(response.data).match(/<adtcore:packageRef\b[^>]*\badtcore:name="([^"]*)"/);
+    if (!match) {
+        throw new Error(`Could not determine the package of ${objectUri}`);
+    }
+    return match[1];
+}
@@ -0,0 +1,18 @@
+import { McpError, ErrorCode, AxiosResponse } from '../lib/utils';
+import { makeAdtRequest, return_error, return_response, getBaseUrl } from '../lib/utils';
+
+export async function handleGetAccessControl(args: any) {
+    try {
+        if (!args?.access_control_name) {
+            throw new McpError(ErrorCode.InvalidParams, 'Access control name is required');
+        }
+        const encodedAccessControlName = encodeURIComponent(args.access_control_name.toLowerCase());
+        const url = `${await getBaseUrl()}/sap/bc/adt/acm/dcl/sources/${encodedAccessControlName}/source/main`;
+
+        const response = await makeAdtRequest(url, 'GET', 30000);
+        return return_response(response);
+    }
+    catch (error) {
+        return return_error(error);
+    }
+}
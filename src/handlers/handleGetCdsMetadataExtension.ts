@@ -0,0 +1,18 @@
+import { McpError, ErrorCode, AxiosResponse } from '../lib/utils';
+import { makeAdtRequest, return_error, return_response, getBaseUrl } from '../lib/utils';
+
+export async function handleGetCdsMetadataExtension(args: any) {
+    try {
+        if (!args?.extension_name) {
+            throw new McpError(ErrorCode.InvalidParams, 'Metadata extension name is required');
+        }
+        const encodedExtensionName = encodeURIComponent(args.extension_name.toLowerCase());
+        const url = `${await getBaseUrl()}/sap/bc/adt/ddic/ddlx/sources/${encodedExtensionName}/source/main`;
+
+        const response = await makeAdtRequest(url, 'GET', 30000);
+        return return_response(response);
+    }
+    catch (error) {
+        return return_error(error);
+    }
+}
@@ -0,0 +1,31 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { makeAdtRequest, return_error, getBaseUrl } from '../lib/utils';
+import { parseCdsSource } from '../lib/cdsParser';
+
+export async function handleGetCdsView(args: any) {
+    try {
+        if (!args?.view_name) {
+            throw new McpError(ErrorCode.InvalidParams, 'View name is required');
+        }
+        const encodedViewName = encodeURIComponent(args.view_name.toLowerCase());
+        const url = `${await getBaseUrl()}/sap/bc/adt/ddic/ddl/sources/${encodedViewName}/source/main`;
+
+        const response = await makeAdtRequest(url, 'GET', 30000);
+        const source = String(response.data);
+        const view = parseCdsSource(source);
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify({
+                    ...view,
+                    name: view.name || args.view_name.toUpperCase(),
+                    source: args.include_source === false ? undefined : source
+                })
+            }]
+        };
+    }
+    catch (error) {
+        return return_error(error);
+    }
+}
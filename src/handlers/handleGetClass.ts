@@ -1,5 +1,9 @@
 import { McpError, ErrorCode, AxiosResponse } from '../lib/utils';
 import { makeAdtRequest, return_error, return_response, getBaseUrl } from '../lib/utils';
+import { fetchObjectStructure, findComponent, SourceRange } from '../lib/objectStructure';
+
+// Global class source and the class-local includes
+const CLASS_INCLUDES = ['main', 'definitions', 'implementations', 'testclasses', 'macros'];
 
 export async function handleGetClass(args: any) {
     try {
@@ -7,10 +11,72 @@ export async function handleGetClass(args: any) {
             throw new McpError(ErrorCode.InvalidParams, 'Class name is required');
         }
         const encodedClassName = encodeURIComponent(args.class_name);
-        const url = `${await getBaseUrl()}/sap/bc/adt/oo/classes/${encodedClassName}/source/main`;
-        const response = await makeAdtRequest(url, 'GET', 30000);
-        return return_response(response);
+        const classUri = `/sap/bc/adt/oo/classes/${encodedClassName}`;
+
+        if (args.method) {
+            return await getMethod(classUri, args.class_name.toUpperCase(), args.method);
+        }
+
+        const includes: string[] = args.includes ?? ['main'];
+        if (!Array.isArray(includes) || includes.length === 0 || includes.some(include => !CLASS_INCLUDES.includes(include))) {
+            throw new McpError(ErrorCode.InvalidParams, `Includes must be a list of: ${CLASS_INCLUDES.join(', ')}`);
+        }
+
+        const responses: AxiosResponse[] = [];
+        for (const include of includes) {
+            const path = include === 'main' ? 'source/main' : `includes/${include}`;
+            responses.push(await makeAdtRequest(`${await getBaseUrl()}${classUri}/${path}`, 'GET', 30000));
+        }
+        if (responses.length === 1) {
+            return return_response(responses[0]);
+        }
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: responses.map((response, i) => `* ---------- Include: ${includes[i]} ----------\n${response.data}`).join('\n\n')
+            }]
+        };
     } catch (error) {
         return return_error(error);
     }
 }
+
+/**
+ * Returns the declaration and implementation of one method, located with the
+ * object structure of the class
+ */
+async function getMethod(classUri: string, className: string, methodName: string) {
+    const structure = await fetchObjectStructure(classUri);
+    const method = findComponent(structure, methodName);
+    if (!method?.implementation) {
+        const methods = structure.children.filter(child => child.implementation).map(child => child.name);
+        throw new McpError(ErrorCode.InvalidParams,
+            `Class ${className} has no implemented method ${methodName.toUpperCase()}. Methods: ${methods.join(', ') || 'none'}`);
+    }
+
+    // Definition and implementation usually come from the same source, read each source once
+    const sources = new Map<string, string[]>();
+    const extract = async (range: SourceRange) => {
+        if (!sources.has(range.uri)) {
+            const response = await makeAdtRequest(`${await getBaseUrl()}${range.uri}`, 'GET', 30000);
+            sources.set(range.uri, String(response.data).split(/\r?\n/));
+        }
+        const endLine = range.endLine ?? range.startLine;
+        return `* Lines ${range.startLine}-${endLine}\n${sources.get(range.uri)!.slice(range.startLine - 1, endLine).join('\n')}`;
+    };
+
+    const properties = [method.visibility, method.level].filter(Boolean).join(', ');
+    const parts = [`* Method ${className}=>${method.name}${properties ? ` (${properties})` : ''}`];
+    if (method.definition) {
+        parts.push(`* ---------- Signature ----------\n${await extract(method.definition)}`);
+    }
+    parts.push(`* ---------- Implementation ----------\n${await extract(method.implementation)}`);
+    return {
+        isError: false,
+        content: [{
+            type: 'text',
+            text: parts.join('\n\n')
+        }]
+    };
+}
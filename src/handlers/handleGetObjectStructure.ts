@@ -0,0 +1,42 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { getObjectUri } from '../lib/objectTypes';
+import { getClassOutline, getProgramOutline, getFunctionGroupOutline } from '../lib/objectOutline';
+
+export async function handleGetObjectStructure(args: any) {
+    try {
+        if (!args?.object_name || !args?.object_type) {
+            throw new McpError(ErrorCode.InvalidParams, 'Object name and type are required');
+        }
+
+        let outline: any;
+        switch (args.object_type.toUpperCase()) {
+            case 'CLAS':
+            case 'CLAS/OC':
+            case 'INTF':
+            case 'INTF/OI':
+                outline = await getClassOutline(getObjectUri(args.object_type, args.object_name));
+                break;
+            case 'PROG':
+            case 'PROG/P':
+                outline = await getProgramOutline(args.object_name);
+                break;
+            case 'FUGR':
+            case 'FUGR/F':
+                outline = await getFunctionGroupOutline(args.object_name);
+                break;
+            default:
+                throw new McpError(ErrorCode.InvalidParams, `Object structure is available for classes, interfaces, programs and function groups, not ${args.object_type}`);
+        }
+
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify(outline)
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
@@ -0,0 +1,49 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { fetchObjects, ObjectRequest } from '../lib/batchFetch';
+
+const MAX_OBJECTS = 50;
+const MAX_CONCURRENCY = 10;
+const MAX_TIMEOUT_SECONDS = 300;
+
+export async function handleGetObjects(args: any) {
+    try {
+        if (!Array.isArray(args?.objects) || args.objects.length === 0) {
+            throw new McpError(ErrorCode.InvalidParams, 'Objects are required as a list of { type, name }');
+        }
+        if (args.objects.length > MAX_OBJECTS) {
+            throw new McpError(ErrorCode.InvalidParams, `At most ${MAX_OBJECTS} objects can be read in one call`);
+        }
+        if (args.objects.some((object: any) => !object?.type || !object?.name)) {
+            throw new McpError(ErrorCode.InvalidParams, 'Each object needs a type and a name');
+        }
+        const concurrency = args.concurrency ?? 4;
+        const timeout = args.timeout ?? 30;
+        if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+            throw new McpError(ErrorCode.InvalidParams, `concurrency must be between 1 and ${MAX_CONCURRENCY}`);
+        }
+        if (typeof timeout !== 'number' || timeout < 1 || timeout > MAX_TIMEOUT_SECONDS) {
+            throw new McpError(ErrorCode.InvalidParams, `timeout must be between 1 and ${MAX_TIMEOUT_SECONDS} seconds`);
+        }
+
+        const results = await fetchObjects(args.objects as ObjectRequest[], {
+            concurrency,
+            timeout: timeout * 1000
+        });
+        const failed = results.filter(result => result.error).length;
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify({
+                    requested: results.length,
+                    succeeded: results.length - failed,
+                    failed,
+                    results
+                })
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
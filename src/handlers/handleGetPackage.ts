@@ -1,33 +1,45 @@
-import { McpError, ErrorCode, AxiosResponse } from '../lib/utils';
-import { makeAdtRequest, return_error, return_response, getBaseUrl } from '../lib/utils';
-import convert from 'xml-js';
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { fetchNodeStructure } from '../lib/nodeStructure';
+import { fetchPackageTree } from '../lib/packages';
+import { toAdtType } from '../lib/objectTypes';
+
+const MAX_PACKAGES_LIMIT = 500;
 
 export async function handleGetPackage(args: any) {
     try {
         if (!args?.package_name) {
             throw new McpError(ErrorCode.InvalidParams, 'Package name is required');
         }
+        if (args.types !== undefined && (!Array.isArray(args.types) || args.types.length === 0)) {
+            throw new McpError(ErrorCode.InvalidParams, 'Types must be a non-empty list of object types, e.g. ["CLAS", "PROG"]');
+        }
+        const types: string[] | undefined = args.types?.map(toAdtType);
 
-        const nodeContentsUrl = `${await getBaseUrl()}/sap/bc/adt/repository/nodestructure`;
-        const encodedPackageName = encodeURIComponent(args.package_name);
-        const nodeContentsParams = {
-            parent_type: "DEVC/K",
-            parent_name: encodedPackageName,
-            withShortDescriptions: true
-        };
+        if (args.recursive) {
+            const maxPackages = args.max_packages ?? 100;
+            if (!Number.isInteger(maxPackages) || maxPackages < 1 || maxPackages > MAX_PACKAGES_LIMIT) {
+                throw new McpError(ErrorCode.InvalidParams, `max_packages must be between 1 and ${MAX_PACKAGES_LIMIT}`);
+            }
+            const tree = await fetchPackageTree(args.package_name, { types, maxPackages });
+            return {
+                isError: false,
+                content: [{
+                    type: 'text',
+                    text: JSON.stringify(tree)
+                }]
+            };
+        }
 
-        const package_structure_response = await makeAdtRequest(nodeContentsUrl, 'POST', 30000, undefined, nodeContentsParams);
-        const result = convert.xml2js(package_structure_response.data, {compact: true});
-        
-        const nodes = result["asx:abap"]?.["asx:values"]?.DATA?.TREE_CONTENT?.SEU_ADT_REPOSITORY_OBJ_NODE || [];
-        const extractedData = (Array.isArray(nodes) ? nodes : [nodes]).filter(node => 
-            node.OBJECT_NAME?._text && node.OBJECT_URI?._text
-        ).map(node => ({
-            OBJECT_TYPE: node.OBJECT_TYPE._text,
-            OBJECT_NAME: node.OBJECT_NAME._text,
-            OBJECT_DESCRIPTION: node.DESCRIPTION?._text,
-            OBJECT_URI: node.OBJECT_URI._text
-        }));
+        const nodes = await fetchNodeStructure('DEVC/K', args.package_name);
+        const extractedData = nodes
+            .filter(node => !types || types.includes(node.type))
+            .map(node => ({
+                OBJECT_TYPE: node.type,
+                OBJECT_NAME: node.name,
+                OBJECT_DESCRIPTION: node.description,
+                OBJECT_URI: node.uri
+            }));
 
         return {
             isError: false,
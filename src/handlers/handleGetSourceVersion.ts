@@ -0,0 +1,27 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { getObjectUri } from '../lib/objectTypes';
+import { fetchSourceVersion } from '../lib/sourceFetch';
+
+export async function handleGetSourceVersion(args: any) {
+    try {
+        if (!args?.object_name || !args?.object_type) {
+            throw new McpError(ErrorCode.InvalidParams, 'Object name and type are required');
+        }
+        if (args.version === undefined || args.version === '') {
+            throw new McpError(ErrorCode.InvalidParams, 'Version is required');
+        }
+
+        const objectUri = getObjectUri(args.object_type, args.object_name, args.function_group);
+        const source = await fetchSourceVersion(objectUri, String(args.version));
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: source
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
@@ -1,19 +1,61 @@
 import { McpError, ErrorCode, AxiosResponse } from '../lib/utils';
 import { makeAdtRequest, return_error, return_response, getBaseUrl } from '../lib/utils';
+import { AxiosError } from 'axios';
+import { runDataPreview, getDataPreviewError } from '../lib/dataPreview';
+
+// Table and column names as accepted by ABAP SQL (including namespaces like /ABC/)
+const NAME_PATTERN = /^[A-Za-z0-9_\/]+$/;
+
+const DEFAULT_ROWS = 100;
+const MAX_ROWS = 5000;
 
 export async function handleGetTableContents(args: any) {
     try {
         if (!args?.table_name) {
             throw new McpError(ErrorCode.InvalidParams, 'Table name is required');
         }
-        const maxRows = args.max_rows || 100;
-        const encodedTableName = encodeURIComponent(args.table_name);
-        //NOTE: This service requires a custom service implementation
-        const url = `${await getBaseUrl()}/z_mcp_abap_adt/z_tablecontent/${encodedTableName}?maxRows=${maxRows}`;
-        const response = await makeAdtRequest(url, 'GET', 30000);
-        return return_response(response);
+        const maxRows = args.max_rows ?? DEFAULT_ROWS;
+        if (!Number.isInteger(maxRows) || maxRows < 1 || maxRows > MAX_ROWS) {
+            throw new McpError(ErrorCode.InvalidParams, `max_rows must be between 1 and ${MAX_ROWS}`);
+        }
+
+        if (args.use_custom_service) {
+            const encodedTableName = encodeURIComponent(args.table_name);
+            //NOTE: This service requires a custom service implementation
+            const url = `${await getBaseUrl()}/z_mcp_abap_adt/z_tablecontent/${encodedTableName}?maxRows=${maxRows}`;
+            const response = await makeAdtRequest(url, 'GET', 30000);
+            return return_response(response);
+        }
+
+        const tableName = String(args.table_name).toUpperCase();
+        const columns: string[] = Array.isArray(args.columns) ? args.columns.map((c: any) => String(c).toUpperCase()) : [];
+        for (const name of [tableName, ...columns]) {
+            if (!NAME_PATTERN.test(name)) {
+                throw new McpError(ErrorCode.InvalidParams, `Invalid table or column name: ${name}`);
+            }
+        }
+
+        let query = `SELECT ${columns.length > 0 ? columns.join(', ') : '*'} FROM ${tableName}`;
+        if (args.where) {
+            query += ` WHERE ${args.where}`;
+        }
+        if (args.order_by) {
+            query += ` ORDER BY ${args.order_by}`;
+        }
+
+        const result = await runDataPreview({ query, maxRows, entity: tableName });
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify({ table: tableName, ...result })
+            }]
+        };
     } catch (error) {
-        // Specific error message for GetTableContents since it requires custom implementation
+        // Report the SAP-side message (e.g. an invalid WHERE clause) instead of the raw XML
+        if (error instanceof AxiosError && error.response && !args?.use_custom_service) {
+            return return_error(getDataPreviewError(error.response.data));
+        }
         return return_error(error);
     }
 }
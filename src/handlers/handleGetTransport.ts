@@ -0,0 +1,22 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { getTransport } from '../lib/transports';
+
+export async function handleGetTransport(args: any) {
+    try {
+        if (!args?.transport_number) {
+            throw new McpError(ErrorCode.InvalidParams, 'Transport number is required');
+        }
+
+        const transport = await getTransport(String(args.transport_number).toUpperCase());
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify(transport)
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
@@ -1,5 +1,7 @@
 import { McpError, ErrorCode, AxiosResponse } from '../lib/utils';
 import { makeAdtRequest, return_error, return_response, getBaseUrl } from '../lib/utils';
+import { return_normalized } from '../lib/responseNormalizer';
+import { shapeDomain, shapeDataElement } from '../lib/ddicTypes';
 
 export async function handleGetTypeInfo(args: any) {
     try {
@@ -10,21 +12,27 @@ export async function handleGetTypeInfo(args: any) {
         return return_error(error);
     }
 
-    const encodedTypeName = encodeURIComponent(args.type_name);
+    const encodedTypeName = encodeURIComponent(args.type_name.toLowerCase());
 
 
     try {
 
-        const url = `${await getBaseUrl()}/sap/bc/adt/ddic/domains/${encodedTypeName}/source/main`;
-        const response = await makeAdtRequest(url, 'GET', 30000);
-        return return_response(response);
+        const url = `${await getBaseUrl()}/sap/bc/adt/ddic/domains/${encodedTypeName}`;
+        const response = await makeAdtRequest(url, 'GET', 30000, undefined, undefined, {
+            'Accept': 'application/vnd.sap.adt.domains.v2+xml, application/vnd.sap.adt.domains.v1+xml'
+        });
+        // JSON shape: DomainInfo, see lib/ddicTypes.ts
+        return return_normalized(response, args.format, shapeDomain);
     } catch (error) {
 
         // no domain found, try data element
         try {
             const url = `${await getBaseUrl()}/sap/bc/adt/ddic/dataelements/${encodedTypeName}`;
-            const response = await makeAdtRequest(url, 'GET', 30000);
-            return return_response(response);
+            const response = await makeAdtRequest(url, 'GET', 30000, undefined, undefined, {
+                'Accept': 'application/vnd.sap.adt.dataelements.v2+xml, application/vnd.sap.adt.dataelements.v1+xml'
+            });
+            // JSON shape: DataElementInfo, see lib/ddicTypes.ts
+            return return_normalized(response, args.format, shapeDataElement);
         } catch (error) {
             return return_error(error);
         }
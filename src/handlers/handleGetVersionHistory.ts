@@ -0,0 +1,36 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { getObjectUri } from '../lib/objectTypes';
+import { listRevisions } from '../lib/sourceFetch';
+
+export async function handleGetVersionHistory(args: any) {
+    try {
+        if (!args?.object_name || !args?.object_type) {
+            throw new McpError(ErrorCode.InvalidParams, 'Object name and type are required');
+        }
+        const maxResults = args.max_results ?? 50;
+        if (!Number.isInteger(maxResults) || maxResults < 1) {
+            throw new McpError(ErrorCode.InvalidParams, 'max_results must be >= 1');
+        }
+
+        const objectUri = getObjectUri(args.object_type, args.object_name, args.function_group);
+        const revisions = await listRevisions(objectUri);
+
+        // Revisions come newest first; index is what GetSourceVersion and CompareObject accept as version
+        const result = {
+            object: objectUri,
+            total: revisions.length,
+            versions: revisions.slice(0, maxResults).map((revision, index) => ({ index, ...revision }))
+        };
+
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify(result)
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
@@ -0,0 +1,16 @@
+import { return_error } from '../lib/utils';
+import { listSystems } from '../lib/systems';
+
+export async function handleListSystems(args: any) {
+    try {
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify(listSystems())
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
@@ -0,0 +1,43 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error, getSapConfig } from '../lib/utils';
+import { listTransports } from '../lib/transports';
+
+// Status values of the transport organizer per status filter
+const STATUS_FILTERS: Record<string, string[] | undefined> = {
+    modifiable: ['D', 'L'],
+    released: ['R', 'O', 'N'],
+    all: undefined
+};
+
+export async function handleListTransports(args: any) {
+    try {
+        const status = args?.status || 'modifiable';
+        if (!(status in STATUS_FILTERS)) {
+            throw new McpError(ErrorCode.InvalidParams, 'status must be modifiable, released or all');
+        }
+        if (args?.type && !['workbench', 'customizing'].includes(args.type)) {
+            throw new McpError(ErrorCode.InvalidParams, 'type must be workbench or customizing');
+        }
+
+        const user = String(args?.user || getSapConfig().username).toUpperCase();
+        const statuses = STATUS_FILTERS[status];
+        const target = args?.target ? String(args.target).toUpperCase() : undefined;
+
+        // The organizer tree cannot be filtered server-side beyond the user
+        const transports = (await listTransports(user)).filter(t =>
+            (!statuses || statuses.includes(t.status)) &&
+            (!args?.type || t.type === args.type) &&
+            (!target || t.target?.toUpperCase() === target)
+        );
+
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify({ user, count: transports.length, transports })
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
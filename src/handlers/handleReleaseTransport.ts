@@ -0,0 +1,41 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { getTransport, releaseTransport, ReleaseResult } from '../lib/transports';
+
+export async function handleReleaseTransport(args: any) {
+    try {
+        if (!args?.transport_number) {
+            throw new McpError(ErrorCode.InvalidParams, 'Transport number is required');
+        }
+        const number = String(args.transport_number).toUpperCase();
+
+        // A request can only be released once all of its tasks are released
+        const results: ReleaseResult[] = [];
+        if (args.release_tasks) {
+            const transport = await getTransport(number);
+            for (const task of transport.tasks.filter(t => t.status !== 'R')) {
+                const result = await releaseTransport(task.number);
+                results.push(result);
+                if (!result.released) {
+                    return releaseResponse(number, false, results);
+                }
+            }
+        }
+
+        const result = await releaseTransport(number);
+        results.push(result);
+        return releaseResponse(number, result.released, results);
+    } catch (error) {
+        return return_error(error);
+    }
+}
+
+function releaseResponse(number: string, released: boolean, results: ReleaseResult[]) {
+    return {
+        isError: !released,
+        content: [{
+            type: 'text',
+            text: JSON.stringify({ transportNumber: number, released, results })
+        }]
+    };
+}
@@ -0,0 +1,40 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { getObjectUri } from '../lib/objectTypes';
+import { runAtcCheck } from '../lib/atc';
+
+const MAX_FINDINGS_LIMIT = 10000;
+
+export async function handleRunAtcCheck(args: any) {
+    try {
+        if (!args?.object_name || !args?.object_type) {
+            throw new McpError(ErrorCode.InvalidParams, 'Object name and type are required');
+        }
+        const maxPriority = args.max_priority ?? 3;
+        if (![1, 2, 3].includes(maxPriority)) {
+            throw new McpError(ErrorCode.InvalidParams, 'max_priority must be 1, 2 or 3');
+        }
+        const maxFindings = args.max_findings ?? 100;
+        if (!Number.isInteger(maxFindings) || maxFindings < 1 || maxFindings > MAX_FINDINGS_LIMIT) {
+            throw new McpError(ErrorCode.InvalidParams, `max_findings must be between 1 and ${MAX_FINDINGS_LIMIT}`);
+        }
+
+        const objectUri = getObjectUri(args.object_type, args.object_name, args.function_group);
+        const result = await runAtcCheck(objectUri, {
+            checkVariant: args.check_variant,
+            maxFindings
+        });
+
+        // The summary keeps the counts of all priorities, the list only the requested ones
+        const findings = result.findings.filter(finding => finding.priority <= maxPriority);
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify({ object: objectUri, ...result, findings })
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
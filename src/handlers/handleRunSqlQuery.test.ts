@@ -0,0 +1,93 @@
+import { handleRunSqlQuery } from './handleRunSqlQuery';
+import { runDataPreview } from '../lib/dataPreview';
+
+jest.mock('../lib/dataPreview', () => ({
+  runDataPreview: jest.fn(),
+  getDataPreviewError: jest.fn((data: any) => String(data))
+}));
+
+const runDataPreviewMock = runDataPreview as jest.MockedFunction<typeof runDataPreview>;
+
+describe('handleRunSqlQuery', () => {
+  beforeEach(() => {
+    runDataPreviewMock.mockReset();
+    runDataPreviewMock.mockResolvedValue({
+      columns: [{ name: 'CARRID', type: 'C', isKey: true }, { name: 'SEATSMAX', type: 'I', isKey: false }],
+      rows: [{ CARRID: 'LH', SEATSMAX: '330' }],
+      totalRows: 1
+    });
+  });
+
+  const expectRejected = async (sql_query: string, message: string) => {
+    const result = await handleRunSqlQuery({ sql_query });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(message);
+    expect(runDataPreviewMock).not.toHaveBeenCalled();
+  };
+
+  const expectAccepted = async (sql_query: string, query = sql_query) => {
+    const result = await handleRunSqlQuery({ sql_query });
+    expect(result.isError).toBe(false);
+    expect(runDataPreviewMock).toHaveBeenCalledWith({ query, maxRows: 100 });
+  };
+
+  describe('single SELECT statements', () => {
+    it('runs a SELECT and types numeric columns', async () => {
+      const result = await handleRunSqlQuery({ sql_query: 'SELECT carrid, seatsmax FROM sflight', max_rows: 10 });
+      expect(result.isError).toBe(false);
+      expect(runDataPreviewMock).toHaveBeenCalledWith({ query: 'SELECT carrid, seatsmax FROM sflight', maxRows: 10 });
+      expect(JSON.parse(result.content[0].text).rows).toEqual([{ CARRID: 'LH', SEATSMAX: 330 }]);
+    });
+
+    it('accepts lower case and leading whitespace', async () => {
+      await expectAccepted('  select * from sflight', 'select * from sflight');
+    });
+
+    it('strips a trailing period and comments', async () => {
+      await expectAccepted('* flights\nSELECT * FROM sflight " all columns\nWHERE carrid = \'LH\'.', 'SELECT * FROM sflight \nWHERE carrid = \'LH\'');
+    });
+
+    it('accepts decimals and periods inside literals', async () => {
+      await expectAccepted("SELECT * FROM sflight WHERE price > 1.5 AND planetype = 'A. 380'");
+    });
+  });
+
+  describe('non-SELECT statements', () => {
+    it.each([
+      'DELETE FROM sflight',
+      'UPDATE sflight SET price = 0',
+      'INSERT INTO sflight VALUES (1)',
+      'CALL some_procedure',
+      '\'SELECT\' FROM sflight',
+      ''
+    ])('rejects %p', async sql => {
+      await expectRejected(sql, sql ? 'Only SELECT statements are allowed' : 'SQL query is required');
+    });
+  });
+
+  describe('multiple statements', () => {
+    it.each([
+      'SELECT * FROM sflight. DELETE FROM sflight',
+      'SELECT * FROM sflight.\nDELETE FROM sflight.',
+      'SELECT * FROM sflight; DELETE FROM sflight',
+      "SELECT * FROM sflight WHERE carrid = 'LH'; DROP TABLE sflight"
+    ])('rejects %p', async sql => {
+      await expectRejected(sql, 'Only a single SELECT statement is allowed');
+    });
+
+    it('accepts separators inside literals', async () => {
+      await expectAccepted("SELECT * FROM sflight WHERE carrid = 'LH; DELETE FROM sflight. ' OR connid = `x. y`");
+    });
+  });
+
+  describe('keyword-named columns', () => {
+    it.each([
+      'SELECT call, merge FROM zcalls',
+      'SELECT carrid AS update, connid AS delete FROM sflight',
+      'SELECT * FROM zlog WHERE action = \'DELETE\' OR action = \'UPDATE\'',
+      'SELECT z~call FROM zcalls AS z ORDER BY z~call'
+    ])('accepts %p', async sql => {
+      await expectAccepted(sql);
+    });
+  });
+});
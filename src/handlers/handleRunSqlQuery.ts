@@ -0,0 +1,147 @@
+/**
+ * Handler for running read-only ABAP SQL queries via the ADT freestyle data preview
+ */
+
+import { AxiosError } from 'axios';
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { runDataPreview, getDataPreviewError, DataPreviewResult } from '../lib/dataPreview';
+
+const DEFAULT_ROWS = 100;
+const MAX_ROWS = 5000;
+
+interface SqlToken {
+    type: 'literal' | 'word' | 'separator' | 'symbol';
+    text: string;
+}
+
+// ABAP types that are returned as JSON numbers (packed numbers stay strings to keep their precision)
+const NUMERIC_TYPES = ['I', 'b', 's', '8', 'F'];
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the RunSqlQuery tool request
+ */
+export async function handleRunSqlQuery(args: any) {
+    try {
+        if (!args?.sql_query || typeof args.sql_query !== 'string') {
+            throw new McpError(ErrorCode.InvalidParams, 'SQL query is required');
+        }
+        const maxRows = args.max_rows ?? DEFAULT_ROWS;
+        if (!Number.isInteger(maxRows) || maxRows < 1 || maxRows > MAX_ROWS) {
+            throw new McpError(ErrorCode.InvalidParams, `max_rows must be between 1 and ${MAX_ROWS}`);
+        }
+
+        const query = validateSelect(args.sql_query);
+        const result = await runDataPreview({ query, maxRows });
+
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify({
+                    columns: result.columns,
+                    rows: toTypedRows(result),
+                    rowCount: result.rows.length,
+                    totalRows: result.totalRows,
+                    truncated: result.totalRows !== undefined && result.totalRows > result.rows.length,
+                    executionTime: result.executionTime
+                })
+            }]
+        };
+    } catch (error) {
+        // Report the SAP-side parse error instead of the raw XML response
+        if (error instanceof AxiosError && error.response) {
+            return return_error(`SQL error: ${getDataPreviewError(error.response.data)}`);
+        }
+        return return_error(error);
+    }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Ensures the query is a single SELECT statement and returns it without
+ * comments and the trailing period.
+ *
+ * @throws {McpError} If the query is anything but a SELECT
+ */
+function validateSelect(sql: string): string {
+    const query = stripComments(sql).trim().replace(/\.\s*$/, '');
+    const tokens = tokenize(query);
+
+    if (tokens[0]?.type !== 'word' || tokens[0].text.toUpperCase() !== 'SELECT') {
+        throw new McpError(ErrorCode.InvalidParams, 'Only SELECT statements are allowed');
+    }
+    // Column and alias names may be keywords (e.g. a column CALL), so only
+    // statement separators outside of literals are checked
+    if (tokens.some(token => token.type === 'separator')) {
+        throw new McpError(ErrorCode.InvalidParams, 'Only a single SELECT statement is allowed');
+    }
+    return query;
+}
+
+/**
+ * Splits a statement into literals, words, statement separators and other
+ * characters. A period followed by whitespace ends an ABAP statement, a
+ * semicolon ends a native SQL statement.
+ */
+function tokenize(statement: string): SqlToken[] {
+    const tokens: SqlToken[] = [];
+    const pattern = /('(?:[^']|'')*'?|`(?:[^`]|``)*`?)|([\w\/]+)|(\.(?=\s|$)|;)|\S/g;
+    for (const [text, literal, word, separator] of statement.matchAll(pattern)) {
+        const type = literal ? 'literal' : word ? 'word' : separator ? 'separator' : 'symbol';
+        tokens.push({ type, text });
+    }
+    return tokens;
+}
+
+/**
+ * Removes ABAP comments: lines starting with * and everything after a " outside of literals
+ */
+function stripComments(sql: string): string {
+    return sql.split(/\r?\n/)
+        .filter(line => !line.startsWith('*'))
+        .map(line => {
+            let quote: string | null = null;
+            for (let i = 0; i < line.length; i++) {
+                const char = line[i];
+                if (quote) {
+                    if (char === quote) {
+                        quote = null;
+                    }
+                } else if (char === "'" || char === '`') {
+                    quote = char;
+                } else if (char === '"') {
+                    return line.substring(0, i);
+                }
+            }
+            return line;
+        })
+        .join('\n');
+}
+
+/**
+ * Converts integer and float columns to JSON numbers
+ */
+function toTypedRows(result: DataPreviewResult): Record<string, string | number>[] {
+    const numericColumns = result.columns
+        .filter(c => c.type && NUMERIC_TYPES.includes(c.type))
+        .map(c => c.name);
+
+    return result.rows.map(row => {
+        const typed: Record<string, string | number> = { ...row };
+        for (const name of numericColumns) {
+            const value = Number(row[name]);
+            if (row[name] !== '' && !Number.isNaN(value)) {
+                typed[name] = value;
+            }
+        }
+        return typed;
+    });
+}
@@ -0,0 +1,30 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { getObjectUri } from '../lib/objectTypes';
+import { runUnitTests } from '../lib/abapUnit';
+
+// Object types that can contain test classes, or packages to run all of them
+const TESTABLE_TYPES = ['CLAS', 'CLAS/OC', 'PROG', 'PROG/P', 'FUGR', 'FUGR/F', 'DEVC', 'DEVC/K'];
+
+export async function handleRunUnitTests(args: any) {
+    try {
+        if (!args?.object_name || !args?.object_type) {
+            throw new McpError(ErrorCode.InvalidParams, 'Object name and type are required');
+        }
+        if (!TESTABLE_TYPES.includes(args.object_type.toUpperCase())) {
+            throw new McpError(ErrorCode.InvalidParams, `Unit tests can only be run for classes, programs, function groups and packages, not ${args.object_type}`);
+        }
+
+        const objectUri = getObjectUri(args.object_type, args.object_name);
+        const result = await runUnitTests(objectUri, args.with_coverage === true);
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify({ object: objectUri, ...result })
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
@@ -1,17 +1,68 @@
-import { McpError, ErrorCode, AxiosResponse } from '../lib/utils';
+import { McpError, ErrorCode } from '../lib/utils';
 import { makeAdtRequest, return_error, return_response, getBaseUrl } from '../lib/utils';
+import { toAdtType } from '../lib/objectTypes';
+import { searchRepository, DateRange } from '../lib/repositorySearch';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RESULTS_LIMIT = 1000;
 
 export async function handleSearchObject(args: any) {
     try {
-        if (!args?.query) {
+        if (!args?.query && !args?.package_name) {
             throw new McpError(ErrorCode.InvalidParams, 'Search query is required');
         }
-        const maxResults = args.maxResults || 100;
-        const encodedQuery = encodeURIComponent(args.query);
-        const url = `${await getBaseUrl()}/sap/bc/adt/repository/informationsystem/search?operation=quickSearch&query=${encodedQuery}&maxResults=${maxResults}`;
-        const response = await makeAdtRequest(url, 'GET', 30000);
-        return return_response(response);
+        const maxResults = args.maxResults ?? 100;
+        if (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > MAX_RESULTS_LIMIT) {
+            throw new McpError(ErrorCode.InvalidParams, `maxResults must be between 1 and ${MAX_RESULTS_LIMIT}`);
+        }
+        const hasFilters = ['object_types', 'package_name', 'responsible', 'created_from', 'created_to', 'changed_from', 'changed_to']
+            .some(filter => args[filter] !== undefined);
+
+        if (args.format === 'raw') {
+            if (hasFilters) {
+                throw new McpError(ErrorCode.InvalidParams, 'format=raw is only supported without filters');
+            }
+            const encodedQuery = encodeURIComponent(args.query);
+            const url = `${await getBaseUrl()}/sap/bc/adt/repository/informationsystem/search?operation=quickSearch&query=${encodedQuery}&maxResults=${maxResults}`;
+            return return_response(await makeAdtRequest(url, 'GET', 30000));
+        }
+
+        if (args.object_types !== undefined && (!Array.isArray(args.object_types) || args.object_types.length === 0)) {
+            throw new McpError(ErrorCode.InvalidParams, 'object_types must be a non-empty list of object types, e.g. ["CLAS", "PROG"]');
+        }
+        const { objects, packagesTruncated, candidatesTruncated } = await searchRepository({
+            query: args.query || '*',
+            maxResults,
+            types: args.object_types?.map(toAdtType),
+            packageName: args.package_name,
+            includeSubpackages: args.include_subpackages,
+            responsible: args.responsible,
+            created: dateRange(args.created_from, args.created_to),
+            changed: dateRange(args.changed_from, args.changed_to)
+        });
+        // JSON shape: { results: [{ name, type, packageName, description, uri }], packagesTruncated,
+        // candidatesTruncated }, results with responsible, createdAt, changedAt and changedBy
+        // when filtering by user or date
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify({ results: objects, packagesTruncated, candidatesTruncated })
+            }]
+        };
     } catch (error) {
         return return_error(error);
     }
 }
+
+function dateRange(from?: string, to?: string): DateRange | undefined {
+    if (!from && !to) {
+        return undefined;
+    }
+    for (const date of [from, to]) {
+        if (date && !DATE_PATTERN.test(date)) {
+            throw new McpError(ErrorCode.InvalidParams, `Invalid date ${date}, expected YYYY-MM-DD`);
+        }
+    }
+    return { from, to };
+}
@@ -0,0 +1,80 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { getObjectUri, toAdtType } from '../lib/objectTypes';
+import { collectPackageObjects, searchSources, searchWithCodeSearch, SearchObject, SEARCHABLE_TYPES } from '../lib/sourceSearch';
+
+const MAX_RESULTS_LIMIT = 1000;
+const MAX_CONCURRENCY = 10;
+
+export async function handleSearchSourceCode(args: any) {
+    try {
+        if (!args?.pattern) {
+            throw new McpError(ErrorCode.InvalidParams, 'Search pattern is required');
+        }
+        if (!args.package_name === !args.objects) {
+            throw new McpError(ErrorCode.InvalidParams, 'Either a package name or a list of objects is required');
+        }
+        const maxResults = args.max_results ?? 100;
+        const maxObjects = args.max_objects ?? 500;
+        const contextLines = args.context_lines ?? 2;
+        const concurrency = args.concurrency ?? 4;
+        if (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > MAX_RESULTS_LIMIT) {
+            throw new McpError(ErrorCode.InvalidParams, `max_results must be between 1 and ${MAX_RESULTS_LIMIT}`);
+        }
+        if (!Number.isInteger(maxObjects) || maxObjects < 1) {
+            throw new McpError(ErrorCode.InvalidParams, 'max_objects must be >= 1');
+        }
+        if (!Number.isInteger(contextLines) || contextLines < 0 || contextLines > 10) {
+            throw new McpError(ErrorCode.InvalidParams, 'context_lines must be between 0 and 10');
+        }
+        if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+            throw new McpError(ErrorCode.InvalidParams, `concurrency must be between 1 and ${MAX_CONCURRENCY}`);
+        }
+
+        let pattern: RegExp;
+        try {
+            const source = args.is_regex ? args.pattern : args.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            pattern = new RegExp(source, args.case_sensitive ? '' : 'i');
+        } catch (error: any) {
+            throw new McpError(ErrorCode.InvalidParams, `Invalid search pattern: ${error.message}`);
+        }
+
+        const types: string[] = args.object_types ? args.object_types.map(toAdtType) : SEARCHABLE_TYPES;
+        let objects: SearchObject[];
+        let packages: string[] = [];
+        let packagesTruncated = false;
+        if (args.package_name) {
+            ({ objects, packages, truncated: packagesTruncated } = await collectPackageObjects(args.package_name, args.include_subpackages !== false, types));
+        } else {
+            if (!Array.isArray(args.objects) || args.objects.some((object: any) => !object?.name || !object?.type)) {
+                throw new McpError(ErrorCode.InvalidParams, 'Each object needs a name and a type');
+            }
+            objects = args.objects.map((object: any) => ({
+                name: object.name.toUpperCase(),
+                type: toAdtType(object.type),
+                uri: getObjectUri(object.type, object.name, object.function_group)
+            }));
+        }
+
+        const options = { pattern, contextLines, maxResults, concurrency };
+        const scope = objects.slice(0, maxObjects);
+        // The code search service takes plain text only; otherwise every source is read
+        const result = packages.length > 0 && !args.is_regex
+            ? await searchWithCodeSearch(packages, args.pattern, scope, options)
+            : await searchSources(scope, options);
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify({
+                    pattern: args.pattern,
+                    ...result,
+                    objectsTruncated: objects.length > maxObjects,
+                    packagesTruncated
+                })
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
@@ -0,0 +1,121 @@
+/**
+ * Handler for checking ABAP syntax via the ADT checkruns endpoint
+ */
+
+import convert from 'xml-js';
+import { McpError, ErrorCode } from '../lib/utils';
+import { makeAdtRequest, return_error, getBaseUrl } from '../lib/utils';
+import { getObjectUri } from '../lib/objectTypes';
+import { toArray, toSeverity, parseSourcePosition, MessageSeverity } from '../lib/adtXml';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface SyntaxCheckMessage {
+    severity: MessageSeverity;
+    line?: number;
+    column?: number;
+    text: string;
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+/**
+ * Handles the SyntaxCheck tool request.
+ * Without source_code the stored version of the object is checked; with
+ * source_code the given source is checked in the context of the object
+ * without saving it.
+ */
+export async function handleSyntaxCheck(args: any) {
+    try {
+        if (!args?.object_name || !args?.object_type) {
+            throw new McpError(ErrorCode.InvalidParams, 'Object name and type are required');
+        }
+        if (args.source_code !== undefined && typeof args.source_code !== 'string') {
+            throw new McpError(ErrorCode.InvalidParams, 'Source code must be a string');
+        }
+
+        const version = args.version || 'active';
+        if (version !== 'active' && version !== 'inactive') {
+            throw new McpError(ErrorCode.InvalidParams, 'Version must be active or inactive');
+        }
+        const objectUri = getObjectUri(args.object_type, args.object_name, args.function_group);
+        const url = `${await getBaseUrl()}/sap/bc/adt/checkruns`;
+
+        const response = await makeAdtRequest(url, 'POST', 60000,
+            generateCheckRunXml(objectUri, version, args.source_code),
+            { 'reporters': 'abapCheckRun' },
+            {
+                'Content-Type': 'application/vnd.sap.adt.checkobjects+xml',
+                'Accept': 'application/vnd.sap.adt.checkmessages+xml'
+            });
+
+        const messages = parseCheckRunResponse(response.data);
+        const result = {
+            object: args.object_name.toUpperCase(),
+            version,
+            errors: messages.filter(m => m.severity === 'error').length,
+            warnings: messages.filter(m => m.severity === 'warning').length,
+            messages
+        };
+
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify(result)
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Generates the check object list. Candidate source is sent base64 encoded
+ * as an artifact of the object's main source.
+ */
+function generateCheckRunXml(objectUri: string, version: string, source?: string): string {
+    const artifact = source === undefined ? '' : `
+    <chkrun:artifacts>
+      <chkrun:artifact chkrun:contentType="text/plain; charset=utf-8" chkrun:uri="${objectUri}/source/main">
+        <chkrun:content>${Buffer.from(source, 'utf-8').toString('base64')}</chkrun:content>
+      </chkrun:artifact>
+    </chkrun:artifacts>`;
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<chkrun:checkObjectList xmlns:chkrun="http://www.sap.com/adt/checkrun" xmlns:adtcore="http://www.sap.com/adt/core">
+  <chkrun:checkObject adtcore:uri="${objectUri}" chkrun:version="${version}">${artifact}
+  </chkrun:checkObject>
+</chkrun:checkObjectList>`;
+}
+
+/**
+ * Extracts the check messages of all reports in the check run response
+ */
+function parseCheckRunResponse(data: any): SyntaxCheckMessage[] {
+    if (typeof data !== 'string' || data.trim() === '') {
+        return [];
+    }
+    const xml = convert.xml2js(data, { compact: true }) as any;
+    const messages: SyntaxCheckMessage[] = [];
+
+    for (const report of toArray(xml['chkrun:checkRunReports']?.['chkrun:checkReport'])) {
+        for (const msg of toArray(report['chkrun:checkMessageList']?.['chkrun:checkMessage'])) {
+            const attributes = msg._attributes || {};
+            messages.push({
+                severity: toSeverity(attributes['chkrun:type']),
+                ...parseSourcePosition(attributes['chkrun:uri']),
+                text: attributes['chkrun:shortText'] || ''
+            });
+        }
+    }
+    return messages;
+}
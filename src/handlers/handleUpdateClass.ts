@@ -0,0 +1,29 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { updateSource } from '../lib/sourceUpdate';
+
+export async function handleUpdateClass(args: any) {
+    try {
+        if (!args?.class_name) {
+            throw new McpError(ErrorCode.InvalidParams, 'Class name is required');
+        }
+        if (typeof args.source_code !== 'string') {
+            throw new McpError(ErrorCode.InvalidParams, 'Source code is required');
+        }
+        const className = args.class_name.toUpperCase();
+        const objectUri = `/sap/bc/adt/oo/classes/${encodeURIComponent(args.class_name.toLowerCase())}`;
+        const message = await updateSource(objectUri, className, args.source_code, {
+            transportRequest: args.transport_request,
+            activate: args.activate
+        });
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: message
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
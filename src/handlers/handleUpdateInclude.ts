@@ -0,0 +1,29 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { updateSource } from '../lib/sourceUpdate';
+
+export async function handleUpdateInclude(args: any) {
+    try {
+        if (!args?.include_name) {
+            throw new McpError(ErrorCode.InvalidParams, 'Include name is required');
+        }
+        if (typeof args.source_code !== 'string') {
+            throw new McpError(ErrorCode.InvalidParams, 'Source code is required');
+        }
+        const includeName = args.include_name.toUpperCase();
+        const objectUri = `/sap/bc/adt/programs/includes/${encodeURIComponent(args.include_name.toLowerCase())}`;
+        const message = await updateSource(objectUri, includeName, args.source_code, {
+            transportRequest: args.transport_request,
+            activate: args.activate
+        });
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: message
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
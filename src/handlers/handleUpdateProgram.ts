@@ -0,0 +1,29 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { updateSource } from '../lib/sourceUpdate';
+
+export async function handleUpdateProgram(args: any) {
+    try {
+        if (!args?.program_name) {
+            throw new McpError(ErrorCode.InvalidParams, 'Program name is required');
+        }
+        if (typeof args.source_code !== 'string') {
+            throw new McpError(ErrorCode.InvalidParams, 'Source code is required');
+        }
+        const programName = args.program_name.toUpperCase();
+        const objectUri = `/sap/bc/adt/programs/programs/${encodeURIComponent(args.program_name.toLowerCase())}`;
+        const message = await updateSource(objectUri, programName, args.source_code, {
+            transportRequest: args.transport_request,
+            activate: args.activate
+        });
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: message
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
@@ -0,0 +1,39 @@
+import { McpError, ErrorCode } from '../lib/utils';
+import { return_error } from '../lib/utils';
+import { getObjectUri } from '../lib/objectTypes';
+import { findUsageReferences } from '../lib/whereUsed';
+
+export async function handleWhereUsed(args: any) {
+    try {
+        if (!args?.uri && (!args?.object_name || !args?.object_type)) {
+            throw new McpError(ErrorCode.InvalidParams, 'Object uri or object name and type are required');
+        }
+        const offset = args.offset ?? 0;
+        const maxResults = args.max_results ?? 100;
+        if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(maxResults) || maxResults < 1) {
+            throw new McpError(ErrorCode.InvalidParams, 'offset must be >= 0 and max_results >= 1');
+        }
+
+        const objectUri = args.uri || getObjectUri(args.object_type, args.object_name, args.function_group);
+        const references = await findUsageReferences(objectUri);
+
+        // The endpoint returns all references at once, so paging happens here
+        const result = {
+            object: objectUri,
+            total: references.length,
+            offset,
+            hasMore: offset + maxResults < references.length,
+            references: references.slice(offset, offset + maxResults)
+        };
+
+        return {
+            isError: false,
+            content: [{
+                type: 'text',
+                text: JSON.stringify(result)
+            }]
+        };
+    } catch (error) {
+        return return_error(error);
+    }
+}
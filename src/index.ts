@@ -10,6 +10,9 @@ import {
 import path from 'path';
 import dotenv from 'dotenv';
 
+// Import handler functions - SYSTEM operations
+import { handleListSystems } from './handlers/handleListSystems';
+
 // Import handler functions - READ operations
 import { handleGetProgram } from './handlers/handleGetProgram';
 import { handleGetClass } from './handlers/handleGetClass';
@@ -24,49 +27,155 @@ import { handleGetTypeInfo } from './handlers/handleGetTypeInfo';
 import { handleGetInterface } from './handlers/handleGetInterface';
 import { handleGetTransaction } from './handlers/handleGetTransaction';
 import { handleSearchObject } from './handlers/handleSearchObject';
+import { handleSearchSourceCode } from './handlers/handleSearchSourceCode';
+import { handleCompareObject } from './handlers/handleCompareObject';
+import { handleGetVersionHistory } from './handlers/handleGetVersionHistory';
+import { handleGetSourceVersion } from './handlers/handleGetSourceVersion';
+import { handleGetObjects } from './handlers/handleGetObjects';
+import { handleRunSqlQuery } from './handlers/handleRunSqlQuery';
+import { handleWhereUsed } from './handlers/handleWhereUsed';
+import { handleGetCdsView } from './handlers/handleGetCdsView';
+import { handleGetCdsMetadataExtension } from './handlers/handleGetCdsMetadataExtension';
+import { handleGetAccessControl } from './handlers/handleGetAccessControl';
+import { handleGetObjectStructure } from './handlers/handleGetObjectStructure';
 
 // Import handler functions - CREATE operations
 import { handleCreateStructure } from './handlers/handleCreateStructure';
 import { handleCreateTable } from './handlers/handleCreateTable';
+import { handleCreateClass } from './handlers/handleCreateClass';
+import { handleCreateInterface } from './handlers/handleCreateInterface';
+import { handleCreateProgram } from './handlers/handleCreateProgram';
+import { handleCreateInclude } from './handlers/handleCreateInclude';
+import { handleCreateFunctionGroup } from './handlers/handleCreateFunctionGroup';
+import { handleCreateFunctionModule } from './handlers/handleCreateFunctionModule';
+import { handleCreateDomain } from './handlers/handleCreateDomain';
+import { handleCreateDataElement } from './handlers/handleCreateDataElement';
+import { handleCreateCdsView } from './handlers/handleCreateCdsView';
+
+// Import handler functions - UPDATE operations
+import { handleUpdateProgram } from './handlers/handleUpdateProgram';
+import { handleUpdateClass } from './handlers/handleUpdateClass';
+import { handleUpdateInterface } from './handlers/handleUpdateInterface';
+import { handleUpdateInclude } from './handlers/handleUpdateInclude';
+import { handleAlterTable } from './handlers/handleAlterTable';
+import { handleAlterStructure } from './handlers/handleAlterStructure';
+
+// Import handler functions - DELETE operations
+import { handleDeleteObject } from './handlers/handleDeleteObject';
+
+// Import handler functions - CHECK & ACTIVATION operations
+import { handleActivateObjects } from './handlers/handleActivateObjects';
+import { handleSyntaxCheck } from './handlers/handleSyntaxCheck';
+import { handleRunUnitTests } from './handlers/handleRunUnitTests';
+import { handleRunAtcCheck } from './handlers/handleRunAtcCheck';
+
+// Import handler functions - TRANSPORT operations
+import { handleListTransports } from './handlers/handleListTransports';
+import { handleGetTransport } from './handlers/handleGetTransport';
+import { handleCreateTransport } from './handlers/handleCreateTransport';
+import { handleReleaseTransport } from './handlers/handleReleaseTransport';
 
 // Import shared utility functions and types
-import { getBaseUrl, getAuthHeaders, createAxiosInstance, makeAdtRequest, return_error, return_response } from './lib/utils';
+import { getBaseUrl, getAuthHeaders, createAxiosInstance, makeAdtRequest, return_error, return_response, runWithSystem } from './lib/utils';
+import { getSystemConfig, SapConfig } from './lib/systems';
 
 // Load environment variables from .env file
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
 
-// Interface for SAP configuration
-export interface SapConfig {
-  url: string;
-  username: string;
-  password: string;
-  client: string;
-}
+// SAP configuration is resolved per connection profile, see lib/systems.ts
+export { getConfig } from './lib/systems';
+export type { SapConfig } from './lib/systems';
 
 /**
- * Retrieves SAP configuration from environment variables.
+ * Adds the optional `system` argument to every tool that talks to an SAP system.
  *
- * @returns {SapConfig} The SAP configuration object.
- * @throws {Error} If any required environment variable is missing.
+ * @param tools Tool definitions as listed by the server
+ * @returns The tool definitions with a `system` input property
  */
-export function getConfig(): SapConfig {
-  const url = process.env.SAP_URL;
-  const username = process.env.SAP_USERNAME;
-  const password = process.env.SAP_PASSWORD;
-  const client = process.env.SAP_CLIENT;
-
-  // Check if all required environment variables are set
-  if (!url || !username || !password || !client) {
-    throw new Error(`Missing required environment variables. Required variables:
-- SAP_URL
-- SAP_USERNAME
-- SAP_PASSWORD
-- SAP_CLIENT`);
-  }
-
-  return { url, username, password, client };
+function withSystemArgument(tools: any[]) {
+  return tools.map(tool => tool.name === 'ListSystems' ? tool : {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: {
+        ...tool.inputSchema.properties,
+        system: {
+          type: 'string',
+          description: 'Name of the SAP system (connection profile) to use, see ListSystems. Uses the default system if omitted.'
+        }
+      }
+    }
+  });
 }
 
+// Method signatures accepted by CreateClass and CreateInterface
+const METHODS_SCHEMA = {
+  type: 'array',
+  description: 'Method definitions. A declaration is generated for each method and, in classes, an empty implementation.',
+  items: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Method name'
+      },
+      visibility: {
+        type: 'string',
+        enum: ['public', 'protected', 'private'],
+        description: 'Section the method is declared in (classes only, default: public)'
+      },
+      isStatic: {
+        type: 'boolean',
+        description: 'Declare as CLASS-METHODS (default: false)'
+      },
+      isAbstract: {
+        type: 'boolean',
+        description: 'Declare as ABSTRACT without implementation (abstract classes only)'
+      },
+      parameters: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Parameter name (e.g., iv_id)'
+            },
+            kind: {
+              type: 'string',
+              enum: ['importing', 'exporting', 'changing', 'returning'],
+              description: 'Parameter kind (default: importing)'
+            },
+            type: {
+              type: 'string',
+              description: 'Type after TYPE, e.g. string, matnr, REF TO zcl_my_class'
+            },
+            optional: {
+              type: 'boolean',
+              description: 'Whether the parameter is OPTIONAL'
+            },
+            default: {
+              type: 'string',
+              description: 'DEFAULT value, e.g. abap_true or \'X\''
+            },
+            byValue: {
+              type: 'boolean',
+              description: 'Pass by VALUE(...) instead of by reference (always for returning)'
+            }
+          },
+          required: ['name', 'type']
+        }
+      },
+      exceptions: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Exception classes for RAISING'
+      }
+    },
+    required: ['name']
+  }
+};
+
 /**
  * Server class for interacting with ABAP systems via ADT.
  */
@@ -78,7 +187,7 @@ export class mcp_abap_adt_server {
    * Constructor for the mcp_abap_adt_server class.
    */
   constructor() {
-    this.sapConfig = getConfig(); // Load SAP configuration
+    this.sapConfig = getSystemConfig().config; // Load default SAP configuration
     this.server = new Server(  // Initialize the MCP server
       {
         name: 'mcp-abap-adt', // Server name
@@ -104,7 +213,17 @@ export class mcp_abap_adt_server {
     // Handler for ListToolsRequest
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools: [
+        tools: withSystemArgument([
+          // ==================== SYSTEM TOOLS ====================
+          {
+            name: 'ListSystems',
+            description: 'List the configured SAP systems (connection profiles) that can be passed as system argument to the other tools',
+            inputSchema: {
+              type: 'object',
+              properties: {}
+            }
+          },
+
           // ==================== READ TOOLS ====================
           {
             name: 'GetProgram',
@@ -122,13 +241,25 @@ export class mcp_abap_adt_server {
           },
           {
             name: 'GetClass',
-            description: 'Retrieve ABAP class source code',
+            description: 'Retrieve ABAP class source code, selected class includes, or a single method with its signature',
             inputSchema: {
               type: 'object',
               properties: {
                 class_name: {
                   type: 'string',
                   description: 'Name of the ABAP class'
+                },
+                includes: {
+                  type: 'array',
+                  items: {
+                    type: 'string',
+                    enum: ['main', 'definitions', 'implementations', 'testclasses', 'macros']
+                  },
+                  description: 'Includes to return: main (global class), definitions and implementations (local types and classes), testclasses, macros. Default: ["main"]'
+                },
+                method: {
+                  type: 'string',
+                  description: 'Return only this method: its signature and implementation. Use for large classes.'
                 }
               },
               required: ['class_name']
@@ -196,7 +327,7 @@ export class mcp_abap_adt_server {
           },
           {
             name: 'GetTableContents',
-            description: 'Retrieve contents of an ABAP table',
+            description: 'Retrieve contents of an ABAP table via the ADT data preview',
             inputSchema: {
               type: 'object',
               properties: {
@@ -206,22 +337,73 @@ export class mcp_abap_adt_server {
                 },
                 max_rows: {
                   type: 'number',
-                  description: 'Maximum number of rows to retrieve',
+                  description: 'Maximum number of rows to retrieve (1-5000)',
                   default: 100
+                },
+                columns: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Columns to retrieve (default: all columns)'
+                },
+                where: {
+                  type: 'string',
+                  description: "ABAP SQL WHERE condition without the WHERE keyword (e.g., CARRID = 'LH' AND CONNID > 400)"
+                },
+                order_by: {
+                  type: 'string',
+                  description: 'ABAP SQL ORDER BY clause without the ORDER BY keywords (e.g., CARRID, FLDATE DESCENDING)'
+                },
+                use_custom_service: {
+                  type: 'boolean',
+                  description: 'Use the custom /z_mcp_abap_adt/z_tablecontent service instead of the data preview (default: false)'
                 }
               },
               required: ['table_name']
             }
           },
+          {
+            name: 'RunSqlQuery',
+            description: 'Run a read-only ABAP SQL SELECT via the ADT data preview and return typed columns and rows as JSON. Anything but a single SELECT is rejected.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sql_query: {
+                  type: 'string',
+                  description: "ABAP SQL SELECT statement (e.g., SELECT carrid, connid FROM sflight WHERE carrid = 'LH')"
+                },
+                max_rows: {
+                  type: 'number',
+                  description: 'Maximum number of rows to return (1-5000)',
+                  default: 100
+                }
+              },
+              required: ['sql_query']
+            }
+          },
           {
             name: 'GetPackage',
-            description: 'Retrieve ABAP package details',
+            description: 'Retrieve ABAP package details. With recursive=true, walks all subpackages and returns each package with its metadata (software component, transport layer, parent) and its objects grouped by type',
             inputSchema: {
               type: 'object',
               properties: {
                 package_name: {
                   type: 'string',
                   description: 'Name of the ABAP package'
+                },
+                recursive: {
+                  type: 'boolean',
+                  description: 'Include subpackages, package metadata and objects grouped by type',
+                  default: false
+                },
+                types: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Only list objects of these types, e.g. ["CLAS", "PROG", "DDLS"] or ADT types like "CLAS/OC"'
+                },
+                max_packages: {
+                  type: 'number',
+                  description: 'Maximum number of packages to visit in recursive mode (1-500)',
+                  default: 100
                 }
               },
               required: ['package_name']
@@ -229,13 +411,18 @@ export class mcp_abap_adt_server {
           },
           {
             name: 'GetTypeInfo',
-            description: 'Retrieve ABAP type information',
+            description: 'Retrieve the properties of a domain or data element (type, length, labels, fixed values)',
             inputSchema: {
               type: 'object',
               properties: {
                 type_name: {
                   type: 'string',
-                  description: 'Name of the ABAP type'
+                  description: 'Name of the domain or data element'
+                },
+                format: {
+                  type: 'string',
+                  enum: ['json', 'raw'],
+                  description: 'Response format: compact JSON (default) or the raw ADT XML'
                 }
               },
               required: ['type_name']
@@ -257,21 +444,131 @@ export class mcp_abap_adt_server {
           },
           {
             name: 'SearchObject',
-            description: 'Search for ABAP objects using quick search',
+            description: 'Search for ABAP objects by name using quick search, optionally filtered by object type, package (with subpackages), responsible user and creation/change dates. Returns name, type, package, description and ADT URI.',
             inputSchema: {
               type: 'object',
               properties: {
                 query: {
                   type: 'string',
-                  description: 'Search query string (use * wildcard for partial match)'
+                  description: 'Search query string (use * wildcard for partial match). Optional with package_name, default *'
                 },
                 maxResults: {
                   type: 'number',
-                  description: 'Maximum number of results to return',
+                  description: 'Maximum number of results to return (1-1000)',
+                  default: 100
+                },
+                object_types: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Only return these object types, e.g. ["CLAS", "PROG", "TABL", "DDLS"]'
+                },
+                package_name: {
+                  type: 'string',
+                  description: 'Only return objects of this package'
+                },
+                include_subpackages: {
+                  type: 'boolean',
+                  description: 'With package_name, also search the subpackages (default: true)',
+                  default: true
+                },
+                responsible: {
+                  type: 'string',
+                  description: 'Only return objects this user is responsible for'
+                },
+                created_from: {
+                  type: 'string',
+                  description: 'Only return objects created on or after this date (YYYY-MM-DD)'
+                },
+                created_to: {
+                  type: 'string',
+                  description: 'Only return objects created on or before this date (YYYY-MM-DD)'
+                },
+                changed_from: {
+                  type: 'string',
+                  description: 'Only return objects changed on or after this date (YYYY-MM-DD)'
+                },
+                changed_to: {
+                  type: 'string',
+                  description: 'Only return objects changed on or before this date (YYYY-MM-DD)'
+                },
+                format: {
+                  type: 'string',
+                  enum: ['json', 'raw'],
+                  description: 'Response format: compact JSON (default) or the raw ADT XML (only without filters)'
+                }
+              },
+              required: []
+            }
+          },
+          {
+            name: 'SearchSourceCode',
+            description: 'Search ABAP source code for a text or regular expression in a package tree or a list of objects. Returns object, include, line number and the matching line with context.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                pattern: {
+                  type: 'string',
+                  description: 'Text to search for, or a regular expression with is_regex'
+                },
+                is_regex: {
+                  type: 'boolean',
+                  description: 'Treat pattern as a JavaScript regular expression (default: false)',
+                  default: false
+                },
+                case_sensitive: {
+                  type: 'boolean',
+                  description: 'Match case (default: false)',
+                  default: false
+                },
+                package_name: {
+                  type: 'string',
+                  description: 'Package to search. Give either package_name or objects.'
+                },
+                include_subpackages: {
+                  type: 'boolean',
+                  description: 'Also search the subpackages of package_name (default: true)',
+                  default: true
+                },
+                objects: {
+                  type: 'array',
+                  description: 'Objects to search',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string', description: 'Object name' },
+                      type: { type: 'string', description: 'Object type: PROG, INCL, CLAS, INTF, FUGR, FUNC, DDLS, TABL, STRU' },
+                      function_group: { type: 'string', description: 'Function group, required for type FUNC' }
+                    },
+                    required: ['name', 'type']
+                  }
+                },
+                object_types: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Only search these object types of the package (e.g., ["CLAS", "PROG"]). Default: all source-based types.'
+                },
+                context_lines: {
+                  type: 'number',
+                  description: 'Lines of context before and after each match (default: 2, max 10)',
+                  default: 2
+                },
+                max_results: {
+                  type: 'number',
+                  description: 'Maximum number of matches (default: 100, max 1000)',
                   default: 100
+                },
+                max_objects: {
+                  type: 'number',
+                  description: 'Maximum number of objects to search (default: 500)',
+                  default: 500
+                },
+                concurrency: {
+                  type: 'number',
+                  description: 'Number of sources read in parallel (default: 4, max 10)',
+                  default: 4
                 }
               },
-              required: ['query']
+              required: ['pattern']
             }
           },
           {
@@ -283,6 +580,11 @@ export class mcp_abap_adt_server {
                 transaction_name: {
                   type: 'string',
                   description: 'Name of the ABAP transaction'
+                },
+                format: {
+                  type: 'string',
+                  enum: ['json', 'raw'],
+                  description: 'Response format: compact JSON (default) or the raw ADT XML'
                 }
               },
               required: ['transaction_name']
@@ -302,180 +604,1408 @@ export class mcp_abap_adt_server {
               required: ['interface_name']
             }
           },
-
-          // ==================== CREATE TOOLS ====================
           {
-            name: 'CreateStructure',
-            description: 'Create a new ABAP DDIC structure in the SAP system',
+            name: 'WhereUsed',
+            description: 'List the objects that use an ABAP object (where-used list), with type, package and description',
             inputSchema: {
               type: 'object',
               properties: {
-                structure_name: {
+                object_name: {
                   type: 'string',
-                  description: 'Name of the structure (e.g., ZMY_STRUCTURE). Will be converted to uppercase.'
+                  description: 'Name of the object (e.g., ZMY_TABLE)'
                 },
-                description: {
+                object_type: {
                   type: 'string',
-                  description: 'Short description of the structure (max 60 characters)'
+                  description: 'Object type: PROG, INCL, CLAS, INTF, FUGR, FUNC, TABL, STRU, DTEL, DOMA, DDLS (or ADT types like CLAS/OC)'
                 },
-                package_name: {
+                function_group: {
                   type: 'string',
-                  description: 'ABAP package name (e.g., ZPACKAGE or $TMP for local/temporary objects)'
+                  description: 'Function group, required for type FUNC'
                 },
-                transport_request: {
+                uri: {
                   type: 'string',
-                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages. Leave empty for $TMP.'
+                  description: 'ADT object URI, alternative to object_name and object_type (e.g., /sap/bc/adt/ddic/tables/zmy_table)'
                 },
-                fields: {
-                  type: 'array',
-                  description: 'Array of structure fields',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      name: {
-                        type: 'string',
-                        description: 'Field name'
-                      },
-                      type: {
-                        type: 'string',
-                        description: 'Field type - built-in (abap.char(10), abap.numc(8), abap.string, abap.int4, abap.dats, abap.tims) or data element name'
-                      }
-                    },
-                    required: ['name', 'type']
-                  }
+                offset: {
+                  type: 'number',
+                  description: 'Number of references to skip (default: 0)',
+                  default: 0
                 },
-                enhancement_category: {
+                max_results: {
+                  type: 'number',
+                  description: 'Maximum number of references to return (default: 100)',
+                  default: 100
+                }
+              }
+            }
+          },
+          {
+            name: 'CompareObject',
+            description: 'Compare the source of an object between two versions or two systems and return a unified diff',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                object_name: {
                   type: 'string',
-                  enum: ['NOT_EXTENSIBLE', 'EXTENSIBLE_ANY', 'EXTENSIBLE_CHARACTER', 'NOT_CLASSIFIED'],
-                  description: 'Enhancement category for the structure (default: NOT_EXTENSIBLE)'
+                  description: 'Name of the object (e.g., ZCL_MY_CLASS)'
+                },
+                object_type: {
+                  type: 'string',
+                  description: 'Object type: PROG, INCL, CLAS, INTF, FUNC, TABL, STRU, DDLS'
+                },
+                function_group: {
+                  type: 'string',
+                  description: 'Function group, required for type FUNC'
+                },
+                version: {
+                  type: 'string',
+                  description: 'Version of the first side: active (default), inactive, a revision index from the version history (0 = newest), a revision number (e.g., 00003) or a revision URI'
+                },
+                compare_version: {
+                  type: 'string',
+                  description: 'Version of the second side, same values as version (default: active)'
+                },
+                compare_system: {
+                  type: 'string',
+                  description: 'Configured system (see ListSystems) to read the second side from. Defaults to the system of the first side.'
+                },
+                compare_connection: {
+                  type: 'object',
+                  description: 'Explicit connection to read the second side from, for systems without a profile',
+                  properties: {
+                    url: { type: 'string', description: 'SAP system URL' },
+                    username: { type: 'string', description: 'SAP username' },
+                    password: { type: 'string', description: 'SAP password' },
+                    client: { type: 'string', description: 'SAP client' }
+                  },
+                  required: ['url', 'username', 'password', 'client']
                 }
               },
-              required: ['structure_name', 'description', 'package_name', 'fields']
+              required: ['object_name', 'object_type']
             }
           },
           {
-            name: 'CreateTable',
-            description: 'Create a new ABAP DDIC database table in the SAP system',
+            name: 'GetVersionHistory',
+            description: 'List the versions of an object\'s source with transport, author and date, newest first',
             inputSchema: {
               type: 'object',
               properties: {
-                table_name: {
+                object_name: {
                   type: 'string',
-                  description: 'Name of the table (e.g., ZMY_TABLE). Will be converted to uppercase.'
+                  description: 'Name of the object (e.g., ZCL_MY_CLASS)'
                 },
-                description: {
+                object_type: {
                   type: 'string',
-                  description: 'Short description of the table (max 60 characters)'
+                  description: 'Object type: PROG, INCL, CLAS, INTF, FUNC, TABL, STRU, DDLS'
                 },
-                package_name: {
+                function_group: {
                   type: 'string',
-                  description: 'ABAP package name (e.g., ZPACKAGE or $TMP for local/temporary objects)'
+                  description: 'Function group, required for type FUNC'
                 },
-                transport_request: {
+                max_results: {
+                  type: 'number',
+                  description: 'Maximum number of versions to return (default: 50)',
+                  default: 50
+                }
+              },
+              required: ['object_name', 'object_type']
+            }
+          },
+          {
+            name: 'GetSourceVersion',
+            description: 'Retrieve the source of an object in a specific version: inactive, or a revision from GetVersionHistory',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                object_name: {
                   type: 'string',
-                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages. Leave empty for $TMP.'
+                  description: 'Name of the object (e.g., ZCL_MY_CLASS)'
                 },
-                fields: {
+                object_type: {
+                  type: 'string',
+                  description: 'Object type: PROG, INCL, CLAS, INTF, FUNC, TABL, STRU, DDLS'
+                },
+                function_group: {
+                  type: 'string',
+                  description: 'Function group, required for type FUNC'
+                },
+                version: {
+                  type: 'string',
+                  description: 'active, inactive, a revision index from GetVersionHistory (0 = newest), a revision number (e.g., 00003) or a revision URI'
+                }
+              },
+              required: ['object_name', 'object_type', 'version']
+            }
+          },
+          {
+            name: 'GetObjects',
+            description: 'Retrieve many objects in one call. Sources are read concurrently; each object gets its own result or error, a failing object does not fail the batch.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                objects: {
                   type: 'array',
-                  description: 'Array of table fields. At least one field must be marked as key.',
+                  description: 'Objects to read (max 50)',
                   items: {
                     type: 'object',
                     properties: {
-                      name: {
-                        type: 'string',
-                        description: 'Field name'
-                      },
                       type: {
                         type: 'string',
-                        description: 'Field type - built-in (abap.char(10), abap.numc(8), abap.string, abap.int4, abap.dats, abap.tims, abap.clnt) or data element name'
+                        description: 'Object type: PROG, INCL, CLAS, INTF, FUGR, FUNC, TABL, STRU, DDLS, DDLX, DCLS, DOMA, DTEL, DEVC'
                       },
-                      isKey: {
-                        type: 'boolean',
-                        description: 'Whether this field is part of the primary key (default: false)'
+                      name: {
+                        type: 'string',
+                        description: 'Name of the object'
                       },
-                      notNull: {
-                        type: 'boolean',
-                        description: 'Whether this field cannot be null (automatically true for key fields)'
+                      function_group: {
+                        type: 'string',
+                        description: 'Function group, required for type FUNC'
                       }
                     },
-                    required: ['name', 'type']
+                    required: ['type', 'name']
                   }
                 },
-                table_category: {
-                  type: 'string',
-                  enum: ['TRANSPARENT', 'CLUSTER', 'POOLED', 'GLOBAL_TEMPORARY'],
-                  description: 'Table category (default: TRANSPARENT)'
-                },
-                delivery_class: {
-                  type: 'string',
-                  enum: ['A', 'C', 'L', 'G', 'E', 'S', 'W'],
-                  description: 'Delivery class: A=Application, C=Customizing, L=Temporary, G=Customer, E=System, S=System, W=System (default: A)'
-                },
-                data_maintenance: {
-                  type: 'string',
-                  enum: ['RESTRICTED', 'ALLOWED', 'NOT_ALLOWED'],
-                  description: 'Data maintenance settings (default: RESTRICTED)'
+                concurrency: {
+                  type: 'number',
+                  description: 'Number of objects read at the same time (1-10)',
+                  default: 4
                 },
-                enhancement_category: {
+                timeout: {
+                  type: 'number',
+                  description: 'Timeout per object in seconds (max 300)',
+                  default: 30
+                }
+              },
+              required: ['objects']
+            }
+          },
+          {
+            name: 'GetCdsView',
+            description: 'Retrieve a CDS view: DDL source, header annotations, parameters, associations and the field list with field annotations',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                view_name: {
                   type: 'string',
-                  enum: ['NOT_EXTENSIBLE', 'EXTENSIBLE_ANY', 'EXTENSIBLE_CHARACTER', 'NOT_CLASSIFIED'],
-                  description: 'Enhancement category for the table (default: NOT_EXTENSIBLE)'
+                  description: 'Name of the CDS view (DDL source)'
                 },
-                include_client: {
+                include_source: {
                   type: 'boolean',
-                  description: 'Whether to include MANDT/CLIENT field as first key field (default: true)'
+                  description: 'Include the DDL source in the result (default: true)'
                 }
               },
-              required: ['table_name', 'description', 'package_name', 'fields']
+              required: ['view_name']
             }
-          }
-        ]
+          },
+          {
+            name: 'GetCdsMetadataExtension',
+            description: 'Retrieve the source of a CDS metadata extension (DDLX)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                extension_name: {
+                  type: 'string',
+                  description: 'Name of the metadata extension'
+                }
+              },
+              required: ['extension_name']
+            }
+          },
+          {
+            name: 'GetAccessControl',
+            description: 'Retrieve the source of a CDS access control (DCLS)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                access_control_name: {
+                  type: 'string',
+                  description: 'Name of the access control'
+                }
+              },
+              required: ['access_control_name']
+            }
+          },
+          {
+            name: 'GetObjectStructure',
+            description: 'Retrieve the outline of an object as JSON: attributes, methods with parameters, events and types of classes and interfaces; forms, includes, events and local classes of programs; function modules and includes of function groups',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                object_name: {
+                  type: 'string',
+                  description: 'Name of the object (e.g., ZCL_MY_CLASS)'
+                },
+                object_type: {
+                  type: 'string',
+                  enum: ['CLAS', 'INTF', 'PROG', 'FUGR'],
+                  description: 'Object type: CLAS, INTF, PROG or FUGR'
+                }
+              },
+              required: ['object_name', 'object_type']
+            }
+          },
+
+          // ==================== CREATE TOOLS ====================
+          {
+            name: 'CreateStructure',
+            description: 'Create a new ABAP DDIC structure in the SAP system',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                structure_name: {
+                  type: 'string',
+                  description: 'Name of the structure (e.g., ZMY_STRUCTURE). Will be converted to uppercase.'
+                },
+                description: {
+                  type: 'string',
+                  description: 'Short description of the structure (max 60 characters)'
+                },
+                package_name: {
+                  type: 'string',
+                  description: 'ABAP package name (e.g., ZPACKAGE or $TMP for local/temporary objects)'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages. Leave empty for $TMP.'
+                },
+                fields: {
+                  type: 'array',
+                  description: 'Array of structure fields',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: {
+                        type: 'string',
+                        description: 'Field name'
+                      },
+                      type: {
+                        type: 'string',
+                        description: 'Field type - built-in (abap.char(10), abap.numc(8), abap.string, abap.int4, abap.dats, abap.tims) or data element name'
+                      }
+                    },
+                    required: ['name', 'type']
+                  }
+                },
+                enhancement_category: {
+                  type: 'string',
+                  enum: ['NOT_EXTENSIBLE', 'EXTENSIBLE_ANY', 'EXTENSIBLE_CHARACTER', 'NOT_CLASSIFIED'],
+                  description: 'Enhancement category for the structure (default: NOT_EXTENSIBLE)'
+                }
+              },
+              required: ['structure_name', 'description', 'package_name', 'fields']
+            }
+          },
+          {
+            name: 'CreateTable',
+            description: 'Create a new ABAP DDIC database table in the SAP system',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                table_name: {
+                  type: 'string',
+                  description: 'Name of the table (e.g., ZMY_TABLE). Will be converted to uppercase.'
+                },
+                description: {
+                  type: 'string',
+                  description: 'Short description of the table (max 60 characters)'
+                },
+                package_name: {
+                  type: 'string',
+                  description: 'ABAP package name (e.g., ZPACKAGE or $TMP for local/temporary objects)'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages. Leave empty for $TMP.'
+                },
+                fields: {
+                  type: 'array',
+                  description: 'Array of table fields. At least one field must be marked as key.',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: {
+                        type: 'string',
+                        description: 'Field name'
+                      },
+                      type: {
+                        type: 'string',
+                        description: 'Field type - built-in (abap.char(10), abap.numc(8), abap.string, abap.int4, abap.dats, abap.tims, abap.clnt) or data element name'
+                      },
+                      isKey: {
+                        type: 'boolean',
+                        description: 'Whether this field is part of the primary key (default: false)'
+                      },
+                      notNull: {
+                        type: 'boolean',
+                        description: 'Whether this field cannot be null (automatically true for key fields)'
+                      }
+                    },
+                    required: ['name', 'type']
+                  }
+                },
+                table_category: {
+                  type: 'string',
+                  enum: ['TRANSPARENT', 'CLUSTER', 'POOLED', 'GLOBAL_TEMPORARY'],
+                  description: 'Table category (default: TRANSPARENT)'
+                },
+                delivery_class: {
+                  type: 'string',
+                  enum: ['A', 'C', 'L', 'G', 'E', 'S', 'W'],
+                  description: 'Delivery class: A=Application, C=Customizing, L=Temporary, G=Customer, E=System, S=System, W=System (default: A)'
+                },
+                data_maintenance: {
+                  type: 'string',
+                  enum: ['RESTRICTED', 'ALLOWED', 'NOT_ALLOWED'],
+                  description: 'Data maintenance settings (default: RESTRICTED)'
+                },
+                enhancement_category: {
+                  type: 'string',
+                  enum: ['NOT_EXTENSIBLE', 'EXTENSIBLE_ANY', 'EXTENSIBLE_CHARACTER', 'NOT_CLASSIFIED'],
+                  description: 'Enhancement category for the table (default: NOT_EXTENSIBLE)'
+                },
+                include_client: {
+                  type: 'boolean',
+                  description: 'Whether to include MANDT/CLIENT field as first key field (default: true)'
+                }
+              },
+              required: ['table_name', 'description', 'package_name', 'fields']
+            }
+          },
+          {
+            name: 'CreateClass',
+            description: 'Create a new ABAP class with generated definition and implementation skeleton, then activate it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                class_name: {
+                  type: 'string',
+                  description: 'Name of the class (e.g., ZCL_MY_CLASS)'
+                },
+                description: {
+                  type: 'string',
+                  description: 'Short description of the class (max 60 characters)'
+                },
+                package_name: {
+                  type: 'string',
+                  description: 'ABAP package name (e.g., ZPACKAGE or $TMP for local/temporary objects)'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages. Leave empty for $TMP.'
+                },
+                visibility: {
+                  type: 'string',
+                  enum: ['public', 'protected', 'private'],
+                  description: 'Who may create instances: CREATE PUBLIC, PROTECTED or PRIVATE (default: public)'
+                },
+                final: {
+                  type: 'boolean',
+                  description: 'Whether the class is FINAL (default: true, false for abstract classes)'
+                },
+                abstract: {
+                  type: 'boolean',
+                  description: 'Whether the class is ABSTRACT (default: false, cannot be combined with final: true)'
+                },
+                superclass: {
+                  type: 'string',
+                  description: 'Superclass to inherit from'
+                },
+                interfaces: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Interfaces implemented by the class'
+                },
+                methods: METHODS_SCHEMA
+              },
+              required: ['class_name', 'description', 'package_name']
+            }
+          },
+          {
+            name: 'CreateInterface',
+            description: 'Create a new ABAP interface with generated method declarations, then activate it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                interface_name: {
+                  type: 'string',
+                  description: 'Name of the interface (e.g., ZIF_MY_INTERFACE)'
+                },
+                description: {
+                  type: 'string',
+                  description: 'Short description of the interface (max 60 characters)'
+                },
+                package_name: {
+                  type: 'string',
+                  description: 'ABAP package name (e.g., ZPACKAGE or $TMP for local/temporary objects)'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages. Leave empty for $TMP.'
+                },
+                interfaces: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Component interfaces included in the interface'
+                },
+                methods: METHODS_SCHEMA
+              },
+              required: ['interface_name', 'description', 'package_name']
+            }
+          },
+          {
+            name: 'CreateProgram',
+            description: 'Create a new executable ABAP program, upload its source and activate it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                program_name: {
+                  type: 'string',
+                  description: 'Name of the program (e.g., ZMY_REPORT)'
+                },
+                description: {
+                  type: 'string',
+                  description: 'Short description of the program (max 60 characters)'
+                },
+                package_name: {
+                  type: 'string',
+                  description: 'ABAP package name (e.g., ZPACKAGE or $TMP for local/temporary objects)'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages. Leave empty for $TMP.'
+                },
+                source_code: {
+                  type: 'string',
+                  description: 'Initial source code (default: REPORT statement only)'
+                }
+              },
+              required: ['program_name', 'description', 'package_name']
+            }
+          },
+          {
+            name: 'CreateInclude',
+            description: 'Create a new ABAP include program, upload its source and activate it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                include_name: {
+                  type: 'string',
+                  description: 'Name of the include (e.g., ZMY_REPORT_TOP)'
+                },
+                description: {
+                  type: 'string',
+                  description: 'Short description of the include (max 60 characters)'
+                },
+                package_name: {
+                  type: 'string',
+                  description: 'ABAP package name (e.g., ZPACKAGE or $TMP for local/temporary objects)'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages. Leave empty for $TMP.'
+                },
+                main_program: {
+                  type: 'string',
+                  description: 'Main program the include belongs to, used as context for syntax check and activation'
+                },
+                source_code: {
+                  type: 'string',
+                  description: 'Initial source code (default: empty)'
+                }
+              },
+              required: ['include_name', 'description', 'package_name']
+            }
+          },
+          {
+            name: 'CreateFunctionGroup',
+            description: 'Create a new ABAP function group and activate it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                function_group: {
+                  type: 'string',
+                  description: 'Name of the function group (e.g., ZMY_FUNCTIONS)'
+                },
+                description: {
+                  type: 'string',
+                  description: 'Short description of the function group (max 60 characters)'
+                },
+                package_name: {
+                  type: 'string',
+                  description: 'ABAP package name (e.g., ZPACKAGE or $TMP for local/temporary objects)'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages. Leave empty for $TMP.'
+                }
+              },
+              required: ['function_group', 'description', 'package_name']
+            }
+          },
+          {
+            name: 'CreateFunctionModule',
+            description: 'Create a new function module in an existing function group with a generated signature, then activate it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                function_name: {
+                  type: 'string',
+                  description: 'Name of the function module (e.g., Z_MY_FUNCTION)'
+                },
+                function_group: {
+                  type: 'string',
+                  description: 'Existing function group the module is created in'
+                },
+                description: {
+                  type: 'string',
+                  description: 'Short description of the function module (max 74 characters)'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required if the function group is not in a local package.'
+                },
+                parameters: {
+                  type: 'array',
+                  description: 'Parameter interface of the function module',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: {
+                        type: 'string',
+                        description: 'Parameter name (e.g., IV_ID)'
+                      },
+                      kind: {
+                        type: 'string',
+                        enum: ['importing', 'exporting', 'changing', 'tables'],
+                        description: 'Parameter kind (default: importing)'
+                      },
+                      type: {
+                        type: 'string',
+                        description: 'Type after TYPE (e.g., string, matnr), or the line structure for tables parameters'
+                      },
+                      optional: {
+                        type: 'boolean',
+                        description: 'Whether the parameter is OPTIONAL'
+                      },
+                      default: {
+                        type: 'string',
+                        description: 'DEFAULT value for importing and changing parameters'
+                      },
+                      byValue: {
+                        type: 'boolean',
+                        description: 'Pass by VALUE(...) instead of REFERENCE(...) (default: false)'
+                      }
+                    },
+                    required: ['name', 'type']
+                  }
+                },
+                exceptions: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Classic exceptions for EXCEPTIONS (e.g., NOT_FOUND)'
+                },
+                source_code: {
+                  type: 'string',
+                  description: 'Body of the function module between the signature and ENDFUNCTION'
+                }
+              },
+              required: ['function_name', 'function_group', 'description']
+            }
+          },
+          {
+            name: 'CreateDomain',
+            description: 'Create a new ABAP DDIC domain and activate it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                domain_name: {
+                  type: 'string',
+                  description: 'Name of the domain (e.g., ZMY_STATUS)'
+                },
+                description: {
+                  type: 'string',
+                  description: 'Short description of the domain (max 60 characters)'
+                },
+                package_name: {
+                  type: 'string',
+                  description: 'ABAP package name (e.g., ZPACKAGE or $TMP for local/temporary objects)'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages. Leave empty for $TMP.'
+                },
+                data_type: {
+                  type: 'string',
+                  description: 'DDIC data type (e.g., CHAR, NUMC, DEC, INT4, DATS, STRING)'
+                },
+                length: {
+                  type: 'number',
+                  description: 'Number of characters or digits. Required unless the data type has a fixed length.'
+                },
+                decimals: {
+                  type: 'number',
+                  description: 'Number of decimal places (default: 0)'
+                },
+                output_length: {
+                  type: 'number',
+                  description: 'Output length (default: length)'
+                },
+                conversion_exit: {
+                  type: 'string',
+                  description: 'Conversion routine (e.g., ALPHA)'
+                },
+                lowercase: {
+                  type: 'boolean',
+                  description: 'Whether lowercase letters are allowed (default: false)'
+                },
+                signed: {
+                  type: 'boolean',
+                  description: 'Whether negative values are allowed (default: false)'
+                },
+                fixed_values: {
+                  type: 'array',
+                  description: 'Fixed values of the domain',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      low: {
+                        type: 'string',
+                        description: 'Fixed value, or lower bound of a range'
+                      },
+                      high: {
+                        type: 'string',
+                        description: 'Upper bound of a range'
+                      },
+                      description: {
+                        type: 'string',
+                        description: 'Short text of the value'
+                      }
+                    },
+                    required: ['low']
+                  }
+                },
+                value_table: {
+                  type: 'string',
+                  description: 'Value table proposed for foreign keys'
+                }
+              },
+              required: ['domain_name', 'description', 'package_name', 'data_type']
+            }
+          },
+          {
+            name: 'CreateDataElement',
+            description: 'Create a new ABAP DDIC data element based on a domain or a built-in type and activate it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                data_element_name: {
+                  type: 'string',
+                  description: 'Name of the data element (e.g., ZMY_STATUS)'
+                },
+                description: {
+                  type: 'string',
+                  description: 'Short description of the data element (max 60 characters)'
+                },
+                package_name: {
+                  type: 'string',
+                  description: 'ABAP package name (e.g., ZPACKAGE or $TMP for local/temporary objects)'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages. Leave empty for $TMP.'
+                },
+                domain_name: {
+                  type: 'string',
+                  description: 'Domain the data element is based on. Give either domain_name or data_type.'
+                },
+                data_type: {
+                  type: 'string',
+                  description: 'Built-in DDIC data type (e.g., CHAR, NUMC, DEC, INT4)'
+                },
+                length: {
+                  type: 'number',
+                  description: 'Length for data_type. Required unless the data type has a fixed length.'
+                },
+                decimals: {
+                  type: 'number',
+                  description: 'Decimal places for data_type (default: 0)'
+                },
+                labels: {
+                  type: 'object',
+                  description: 'Field labels. Labels not given default to the description cut to their maximum length.',
+                  properties: {
+                    short: {
+                      type: 'string',
+                      description: 'Short label (max 10 characters)'
+                    },
+                    medium: {
+                      type: 'string',
+                      description: 'Medium label (max 20 characters)'
+                    },
+                    long: {
+                      type: 'string',
+                      description: 'Long label (max 40 characters)'
+                    },
+                    heading: {
+                      type: 'string',
+                      description: 'Column heading (max 55 characters)'
+                    }
+                  }
+                },
+                search_help: {
+                  type: 'string',
+                  description: 'Search help attached to the data element'
+                },
+                parameter_id: {
+                  type: 'string',
+                  description: 'SET/GET parameter ID'
+                }
+              },
+              required: ['data_element_name', 'description', 'package_name']
+            }
+          },
+          {
+            name: 'CreateCdsView',
+            description: 'Create a CDS view from a DDL source, or generate a view entity over an existing table, and activate it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                view_name: {
+                  type: 'string',
+                  description: 'Name of the CDS view (e.g., ZI_SALESORDER, max 30 characters)'
+                },
+                description: {
+                  type: 'string',
+                  description: 'Short description of the view (max 60 characters)'
+                },
+                package_name: {
+                  type: 'string',
+                  description: 'ABAP package name (e.g., ZPACKAGE or $TMP for local/temporary objects)'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages. Leave empty for $TMP.'
+                },
+                ddl_source: {
+                  type: 'string',
+                  description: 'Complete DDL source defining the view. Give either ddl_source or base_table.'
+                },
+                base_table: {
+                  type: 'string',
+                  description: 'Table to generate a view entity over, with CamelCase aliases for the fields'
+                },
+                fields: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Table fields to select with base_table (default: all fields except the client)'
+                }
+              },
+              required: ['view_name', 'description', 'package_name']
+            }
+          },
+
+          // ==================== UPDATE TOOLS ====================
+          {
+            name: 'UpdateProgram',
+            description: 'Replace the source code of an existing ABAP program',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                program_name: {
+                  type: 'string',
+                  description: 'Name of the ABAP program'
+                },
+                source_code: {
+                  type: 'string',
+                  description: 'Complete new source code. Replaces the existing /source/main content.'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages unless the object is already locked in a request.'
+                },
+                activate: {
+                  type: 'boolean',
+                  description: 'Whether to activate the object after the upload (default: false)'
+                }
+              },
+              required: ['program_name', 'source_code']
+            }
+          },
+          {
+            name: 'UpdateClass',
+            description: 'Replace the source code of an existing ABAP class',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                class_name: {
+                  type: 'string',
+                  description: 'Name of the ABAP class'
+                },
+                source_code: {
+                  type: 'string',
+                  description: 'Complete new source code. Replaces the existing /source/main content.'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages unless the object is already locked in a request.'
+                },
+                activate: {
+                  type: 'boolean',
+                  description: 'Whether to activate the object after the upload (default: false)'
+                }
+              },
+              required: ['class_name', 'source_code']
+            }
+          },
+          {
+            name: 'UpdateInterface',
+            description: 'Replace the source code of an existing ABAP interface',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                interface_name: {
+                  type: 'string',
+                  description: 'Name of the ABAP interface'
+                },
+                source_code: {
+                  type: 'string',
+                  description: 'Complete new source code. Replaces the existing /source/main content.'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages unless the object is already locked in a request.'
+                },
+                activate: {
+                  type: 'boolean',
+                  description: 'Whether to activate the object after the upload (default: false)'
+                }
+              },
+              required: ['interface_name', 'source_code']
+            }
+          },
+          {
+            name: 'UpdateInclude',
+            description: 'Replace the source code of an existing ABAP include',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                include_name: {
+                  type: 'string',
+                  description: 'Name of the ABAP include'
+                },
+                source_code: {
+                  type: 'string',
+                  description: 'Complete new source code. Replaces the existing /source/main content.'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages unless the object is already locked in a request.'
+                },
+                activate: {
+                  type: 'boolean',
+                  description: 'Whether to activate the object after the upload (default: false)'
+                }
+              },
+              required: ['include_name', 'source_code']
+            }
+          },
+          {
+            name: 'AlterTable',
+            description: 'Add, remove or retype fields of an existing DDIC database table. Returns the DDL diff and warns about changes that require a table conversion.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                table_name: {
+                  type: 'string',
+                  description: 'Name of the table (e.g., ZMY_TABLE)'
+                },
+                operations: {
+                  type: 'array',
+                  description: 'Field operations, applied in order',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      action: {
+                        type: 'string',
+                        enum: ['add', 'remove', 'modify'],
+                        description: 'Add a new field, remove a field or change its type or key flag'
+                      },
+                      name: {
+                        type: 'string',
+                        description: 'Field name'
+                      },
+                      type: {
+                        type: 'string',
+                        description: 'New field type for add and modify - built-in (abap.char(10), abap.dec(15,2), ...) or data element name'
+                      },
+                      isKey: {
+                        type: 'boolean',
+                        description: 'Whether the field is part of the primary key'
+                      },
+                      notNull: {
+                        type: 'boolean',
+                        description: 'Whether the field cannot be null'
+                      },
+                      after: {
+                        type: 'string',
+                        description: 'For add: insert after this field (default: at the end, key fields after the last key field)'
+                      }
+                    },
+                    required: ['action', 'name']
+                  }
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages unless the object is already locked in a request.'
+                },
+                activate: {
+                  type: 'boolean',
+                  description: 'Whether to activate the table after the upload (default: true)'
+                },
+                dry_run: {
+                  type: 'boolean',
+                  description: 'Only return the DDL diff and warnings without changing anything (default: false)'
+                }
+              },
+              required: ['table_name', 'operations']
+            }
+          },
+          {
+            name: 'AlterStructure',
+            description: 'Add, remove or retype fields of an existing DDIC structure and return the DDL diff',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                structure_name: {
+                  type: 'string',
+                  description: 'Name of the structure (e.g., ZMY_STRUCTURE)'
+                },
+                operations: {
+                  type: 'array',
+                  description: 'Field operations, applied in order',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      action: {
+                        type: 'string',
+                        enum: ['add', 'remove', 'modify'],
+                        description: 'Add a new field, remove a field or change its type'
+                      },
+                      name: {
+                        type: 'string',
+                        description: 'Field name'
+                      },
+                      type: {
+                        type: 'string',
+                        description: 'New field type for add and modify - built-in (abap.char(10), abap.dec(15,2), ...) or data element name'
+                      },
+                      notNull: {
+                        type: 'boolean',
+                        description: 'Whether the field cannot be null'
+                      },
+                      after: {
+                        type: 'string',
+                        description: 'For add: insert after this field (default: at the end)'
+                      }
+                    },
+                    required: ['action', 'name']
+                  }
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for non-local packages unless the object is already locked in a request.'
+                },
+                activate: {
+                  type: 'boolean',
+                  description: 'Whether to activate the structure after the upload (default: true)'
+                },
+                dry_run: {
+                  type: 'boolean',
+                  description: 'Only return the DDL diff and warnings without changing anything (default: false)'
+                }
+              },
+              required: ['structure_name', 'operations']
+            }
+          },
+
+          // ==================== DELETE TOOLS ====================
+          {
+            name: 'DeleteObject',
+            description: 'Delete an ABAP object. Refuses to delete objects that are still used by other objects unless force is set.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                object_name: {
+                  type: 'string',
+                  description: 'Name of the object (e.g., ZMY_PROGRAM)'
+                },
+                object_type: {
+                  type: 'string',
+                  description: 'Object type: PROG, INCL, CLAS, INTF, FUGR, FUNC, TABL, STRU, DTEL, DOMA, DDLS, DDLX, DCLS (or ADT types like CLAS/OC)'
+                },
+                function_group: {
+                  type: 'string',
+                  description: 'Function group, required for type FUNC'
+                },
+                transport_request: {
+                  type: 'string',
+                  description: 'Transport request number (e.g., DEVK900123). Required for objects in non-local packages.'
+                },
+                force: {
+                  type: 'boolean',
+                  description: 'Delete the object even if the where-used list is not empty (default: false)',
+                  default: false
+                }
+              },
+              required: ['object_name', 'object_type']
+            }
+          },
+
+          // ==================== CHECK & ACTIVATION TOOLS ====================
+          {
+            name: 'ActivateObjects',
+            description: 'Activate one or more ABAP objects of any type in a single batch and return the parsed activation log',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                objects: {
+                  type: 'array',
+                  description: 'Objects to activate. Give either the ADT uri or the object name and type.',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      uri: {
+                        type: 'string',
+                        description: 'ADT object URI (e.g., /sap/bc/adt/oo/classes/zcl_my_class)'
+                      },
+                      name: {
+                        type: 'string',
+                        description: 'Object name (e.g., ZCL_MY_CLASS)'
+                      },
+                      type: {
+                        type: 'string',
+                        description: 'Object type: PROG, INCL, CLAS, INTF, FUGR, FUNC, TABL, STRU, DTEL, DOMA, DDLS (or ADT types like CLAS/OC)'
+                      },
+                      function_group: {
+                        type: 'string',
+                        description: 'Function group, required for type FUNC'
+                      }
+                    }
+                  }
+                }
+              },
+              required: ['objects']
+            }
+          },
+          {
+            name: 'SyntaxCheck',
+            description: 'Check ABAP syntax of an existing object or of candidate source code without saving it. Returns errors and warnings with line and column.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                object_name: {
+                  type: 'string',
+                  description: 'Name of the object to check (e.g., ZCL_MY_CLASS)'
+                },
+                object_type: {
+                  type: 'string',
+                  description: 'Object type: PROG, INCL, CLAS, INTF, FUGR, FUNC, DDLS (or ADT types like CLAS/OC)'
+                },
+                function_group: {
+                  type: 'string',
+                  description: 'Function group, required for type FUNC'
+                },
+                source_code: {
+                  type: 'string',
+                  description: 'Candidate source code to check instead of the stored source. Nothing is saved.'
+                },
+                version: {
+                  type: 'string',
+                  enum: ['active', 'inactive'],
+                  description: 'Stored version to check when no source_code is given (default: active)'
+                }
+              },
+              required: ['object_name', 'object_type']
+            }
+          },
+          {
+            name: 'RunUnitTests',
+            description: 'Run the ABAP Unit tests of a class, program, function group or package and return the result of every test method as JSON',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                object_name: {
+                  type: 'string',
+                  description: 'Name of the object or package (e.g., ZCL_MY_CLASS)'
+                },
+                object_type: {
+                  type: 'string',
+                  enum: ['CLAS', 'PROG', 'FUGR', 'DEVC'],
+                  description: 'Object type: CLAS, PROG, FUGR or DEVC for all tests of a package'
+                },
+                with_coverage: {
+                  type: 'boolean',
+                  description: 'Also measure statement, branch and procedure coverage (default: false)',
+                  default: false
+                }
+              },
+              required: ['object_name', 'object_type']
+            }
+          },
+          {
+            name: 'RunAtcCheck',
+            description: 'Run an ATC (ABAP Test Cockpit) check variant on an object or package and return the findings with priority, check, message and source position as JSON',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                object_name: {
+                  type: 'string',
+                  description: 'Name of the object or package (e.g., ZMY_TABLE)'
+                },
+                object_type: {
+                  type: 'string',
+                  description: 'Object type: PROG, INCL, CLAS, INTF, FUGR, FUNC, TABL, STRU, DTEL, DOMA, DDLS, DEVC (or ADT types like CLAS/OC)'
+                },
+                function_group: {
+                  type: 'string',
+                  description: 'Function group, required for type FUNC'
+                },
+                check_variant: {
+                  type: 'string',
+                  description: 'ATC check variant (default: the system check variant)'
+                },
+                max_priority: {
+                  type: 'number',
+                  enum: [1, 2, 3],
+                  description: 'Only list findings up to this priority, e.g. 2 for priority 1 and 2 findings (default: 3)',
+                  default: 3
+                },
+                max_findings: {
+                  type: 'number',
+                  description: 'Maximum number of findings the check run reports (1-10000, default: 100)',
+                  default: 100
+                }
+              },
+              required: ['object_name', 'object_type']
+            }
+          },
+
+          // ==================== TRANSPORT TOOLS ====================
+          {
+            name: 'ListTransports',
+            description: 'List transport requests of a user with their tasks and objects',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                user: {
+                  type: 'string',
+                  description: 'Owner of the requests (default: the user of the connection)'
+                },
+                status: {
+                  type: 'string',
+                  enum: ['modifiable', 'released', 'all'],
+                  description: 'Request status to list (default: modifiable)'
+                },
+                type: {
+                  type: 'string',
+                  enum: ['workbench', 'customizing'],
+                  description: 'Only list requests of this type'
+                },
+                target: {
+                  type: 'string',
+                  description: 'Only list requests for this target system'
+                }
+              },
+              required: []
+            }
+          },
+          {
+            name: 'GetTransport',
+            description: 'Retrieve a transport request with its tasks and object list',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                transport_number: {
+                  type: 'string',
+                  description: 'Transport request or task number (e.g., DEVK900123)'
+                }
+              },
+              required: ['transport_number']
+            }
+          },
+          {
+            name: 'CreateTransport',
+            description: 'Create a workbench transport request for objects of a package and return its number',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                package_name: {
+                  type: 'string',
+                  description: 'Package the objects belong to (e.g., ZMY_PACKAGE)'
+                },
+                description: {
+                  type: 'string',
+                  description: 'Short description of the transport request'
+                },
+                object_uri: {
+                  type: 'string',
+                  description: 'ADT URI of the object the request is for (default: the package)'
+                }
+              },
+              required: ['package_name', 'description']
+            }
+          },
+          {
+            name: 'ReleaseTransport',
+            description: 'Release a transport request or task and return the release log',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                transport_number: {
+                  type: 'string',
+                  description: 'Transport request or task number (e.g., DEVK900123)'
+                },
+                release_tasks: {
+                  type: 'boolean',
+                  description: 'Release the unreleased tasks of the request first (default: false)'
+                }
+              },
+              required: ['transport_number']
+            }
+          }
+        ])
       };
     });
 
     // Handler for CallToolRequest
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      switch (request.params.name) {
-        // ==================== READ OPERATIONS ====================
-        case 'GetProgram':
-          return await handleGetProgram(request.params.arguments);
-        case 'GetClass':
-          return await handleGetClass(request.params.arguments);
-        case 'GetFunction':
-          return await handleGetFunction(request.params.arguments);
-        case 'GetFunctionGroup':
-          return await handleGetFunctionGroup(request.params.arguments);
-        case 'GetStructure':
-          return await handleGetStructure(request.params.arguments);
-        case 'GetTable':
-          return await handleGetTable(request.params.arguments);
-        case 'GetTableContents':
-          return await handleGetTableContents(request.params.arguments);
-        case 'GetPackage':
-          return await handleGetPackage(request.params.arguments);
-        case 'GetTypeInfo':
-          return await handleGetTypeInfo(request.params.arguments);
-        case 'GetInclude':
-          return await handleGetInclude(request.params.arguments);
-        case 'SearchObject':
-          return await handleSearchObject(request.params.arguments);
-        case 'GetInterface':
-          return await handleGetInterface(request.params.arguments);
-        case 'GetTransaction':
-          return await handleGetTransaction(request.params.arguments);
-
-        // ==================== CREATE OPERATIONS ====================
-        case 'CreateStructure':
-          return await handleCreateStructure(request.params.arguments);
-        case 'CreateTable':
-          return await handleCreateTable(request.params.arguments);
-
-        default:
-          throw new McpError(
-            ErrorCode.MethodNotFound,
-            `Unknown tool: ${request.params.name}`
-          );
-      }
+      // Direct all ADT requests of this call at the requested system
+      const system = request.params.arguments?.system as string | undefined;
+      return await runWithSystem(system, async () => {
+        switch (request.params.name) {
+          // ==================== SYSTEM OPERATIONS ====================
+          case 'ListSystems':
+            return await handleListSystems(request.params.arguments);
+
+          // ==================== READ OPERATIONS ====================
+          case 'GetProgram':
+            return await handleGetProgram(request.params.arguments);
+          case 'GetClass':
+            return await handleGetClass(request.params.arguments);
+          case 'GetFunction':
+            return await handleGetFunction(request.params.arguments);
+          case 'GetFunctionGroup':
+            return await handleGetFunctionGroup(request.params.arguments);
+          case 'GetStructure':
+            return await handleGetStructure(request.params.arguments);
+          case 'GetTable':
+            return await handleGetTable(request.params.arguments);
+          case 'GetTableContents':
+            return await handleGetTableContents(request.params.arguments);
+          case 'RunSqlQuery':
+            return await handleRunSqlQuery(request.params.arguments);
+          case 'GetPackage':
+            return await handleGetPackage(request.params.arguments);
+          case 'GetTypeInfo':
+            return await handleGetTypeInfo(request.params.arguments);
+          case 'GetInclude':
+            return await handleGetInclude(request.params.arguments);
+          case 'SearchObject':
+            return await handleSearchObject(request.params.arguments);
+          case 'SearchSourceCode':
+            return await handleSearchSourceCode(request.params.arguments);
+          case 'GetInterface':
+            return await handleGetInterface(request.params.arguments);
+          case 'GetTransaction':
+            return await handleGetTransaction(request.params.arguments);
+          case 'WhereUsed':
+            return await handleWhereUsed(request.params.arguments);
+          case 'CompareObject':
+            return await handleCompareObject(request.params.arguments);
+          case 'GetVersionHistory':
+            return await handleGetVersionHistory(request.params.arguments);
+          case 'GetSourceVersion':
+            return await handleGetSourceVersion(request.params.arguments);
+          case 'GetObjects':
+            return await handleGetObjects(request.params.arguments);
+          case 'GetCdsView':
+            return await handleGetCdsView(request.params.arguments);
+          case 'GetCdsMetadataExtension':
+            return await handleGetCdsMetadataExtension(request.params.arguments);
+          case 'GetAccessControl':
+            return await handleGetAccessControl(request.params.arguments);
+          case 'GetObjectStructure':
+            return await handleGetObjectStructure(request.params.arguments);
+
+          // ==================== CREATE OPERATIONS ====================
+          case 'CreateStructure':
+            return await handleCreateStructure(request.params.arguments);
+          case 'CreateTable':
+            return await handleCreateTable(request.params.arguments);
+          case 'CreateClass':
+            return await handleCreateClass(request.params.arguments);
+          case 'CreateInterface':
+            return await handleCreateInterface(request.params.arguments);
+          case 'CreateProgram':
+            return await handleCreateProgram(request.params.arguments);
+          case 'CreateInclude':
+            return await handleCreateInclude(request.params.arguments);
+          case 'CreateFunctionGroup':
+            return await handleCreateFunctionGroup(request.params.arguments);
+          case 'CreateFunctionModule':
+            return await handleCreateFunctionModule(request.params.arguments);
+          case 'CreateDomain':
+            return await handleCreateDomain(request.params.arguments);
+          case 'CreateDataElement':
+            return await handleCreateDataElement(request.params.arguments);
+          case 'CreateCdsView':
+            return await handleCreateCdsView(request.params.arguments);
+
+          // ==================== UPDATE OPERATIONS ====================
+          case 'UpdateProgram':
+            return await handleUpdateProgram(request.params.arguments);
+          case 'UpdateClass':
+            return await handleUpdateClass(request.params.arguments);
+          case 'UpdateInterface':
+            return await handleUpdateInterface(request.params.arguments);
+          case 'UpdateInclude':
+            return await handleUpdateInclude(request.params.arguments);
+          case 'AlterTable':
+            return await handleAlterTable(request.params.arguments);
+          case 'AlterStructure':
+            return await handleAlterStructure(request.params.arguments);
+
+          // ==================== DELETE OPERATIONS ====================
+          case 'DeleteObject':
+            return await handleDeleteObject(request.params.arguments);
+
+          // ==================== CHECK & ACTIVATION OPERATIONS ====================
+          case 'ActivateObjects':
+            return await handleActivateObjects(request.params.arguments);
+          case 'SyntaxCheck':
+            return await handleSyntaxCheck(request.params.arguments);
+          case 'RunUnitTests':
+            return await handleRunUnitTests(request.params.arguments);
+          case 'RunAtcCheck':
+            return await handleRunAtcCheck(request.params.arguments);
+
+          // ==================== TRANSPORT OPERATIONS ====================
+          case 'ListTransports':
+            return await handleListTransports(request.params.arguments);
+          case 'GetTransport':
+            return await handleGetTransport(request.params.arguments);
+          case 'CreateTransport':
+            return await handleCreateTransport(request.params.arguments);
+          case 'ReleaseTransport':
+            return await handleReleaseTransport(request.params.arguments);
+
+          default:
+            throw new McpError(
+              ErrorCode.MethodNotFound,
+              `Unknown tool: ${request.params.name}`
+            );
+        }
+      });
     });
 
     // Handle server shutdown on SIGINT (Ctrl+C)
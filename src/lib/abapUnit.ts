@@ -0,0 +1,226 @@
+/**
+ * ABAP Unit test runs and coverage via the ADT abapunit endpoint
+ */
+
+import { makeAdtRequest, getBaseUrl } from './utils';
+import { toArray, parseSourcePosition, escapeXml } from './adtXml';
+import { normalizeXml } from './responseNormalizer';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface UnitTestStackEntry {
+  name?: string;
+  description?: string;   // e.g. Include: <ZCL_FOO======CCAU> Line: <12>
+  uri?: string;
+  line?: number;
+}
+
+export interface UnitTestAlert {
+  kind: string;           // failedAssertion, exception, warning, ...
+  severity: string;       // critical, fatal, tolerable
+  title: string;
+  details: string[];      // Assertion messages, flattened
+  stack: UnitTestStackEntry[];
+}
+
+export interface UnitTestMethod {
+  name: string;
+  passed: boolean;
+  executionTime?: number; // Seconds
+  alerts: UnitTestAlert[];
+}
+
+export interface UnitTestClass {
+  name: string;
+  program: string;        // Class, program or function group containing the test class
+  riskLevel?: string;
+  durationCategory?: string;
+  alerts: UnitTestAlert[];   // Alerts outside of a test method, e.g. from class_setup
+  methods: UnitTestMethod[];
+}
+
+export interface CoverageResult {
+  name: string;
+  type?: string;
+  statement?: number;     // Percentages, rounded to one decimal
+  branch?: number;
+  procedure?: number;
+}
+
+export interface UnitTestRunResult {
+  passed: boolean;
+  summary: {
+    testClasses: number;
+    testMethods: number;
+    passed: number;
+    failed: number;
+    executionTime: number;
+  };
+  testClasses: UnitTestClass[];
+  alerts: UnitTestAlert[];   // Alerts of the whole run, e.g. no tests found
+  coverage?: CoverageResult[];
+}
+
+// Alerts of these severities fail a test, others (tolerable) are warnings
+const FAILING_SEVERITIES = ['critical', 'fatal'];
+
+// ============================================================================
+// Test Runs
+// ============================================================================
+
+/**
+ * Runs the unit tests of an object (class, program, function group or
+ * package) with all risk levels and durations.
+ *
+ * @param objectUri ADT object URI without host (e.g. /sap/bc/adt/oo/classes/zcl_foo)
+ * @param withCoverage Also measure and return the code coverage of the tested object
+ */
+export async function runUnitTests(objectUri: string, withCoverage = false): Promise<UnitTestRunResult> {
+  const url = `${await getBaseUrl()}/sap/bc/adt/abapunit/testruns`;
+  const body = `<?xml version="1.0" encoding="UTF-8"?>
+<aunit:runConfiguration xmlns:aunit="http://www.sap.com/adt/aunit">
+  <external>
+    <coverage active="${withCoverage}"/>
+  </external>
+  <options>
+    <uriType value="semantic"/>
+    <testDeterminationStrategy sameProgram="true" assignedTests="false"/>
+    <testRiskLevels harmless="true" dangerous="true" critical="true"/>
+    <testDurations short="true" medium="true" long="true"/>
+    <withNavigationUri enabled="true"/>
+  </options>
+  ${objectSets(objectUri)}
+</aunit:runConfiguration>`;
+
+  // Test runs of whole packages can take a while
+  const response = await makeAdtRequest(url, 'POST', 300000, body, undefined, {
+    'Content-Type': 'application/vnd.sap.adt.abapunit.testruns.config.v4+xml',
+    'Accept': 'application/vnd.sap.adt.abapunit.testruns.result.v1+xml'
+  });
+
+  const json = String(response.data || '').trim() ? normalizeXml(response.data) : {};
+  const result = parseRunResult(json);
+  const measurementUri = withCoverage ? json.external?.coverage?.uri : undefined;
+  if (measurementUri) {
+    result.coverage = await fetchCoverage(measurementUri, objectUri);
+  }
+  return result;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function objectSets(objectUri: string): string {
+  return `<adtcore:objectSets xmlns:adtcore="http://www.sap.com/adt/core">
+    <objectSet kind="inclusive">
+      <adtcore:objectReferences>
+        <adtcore:objectReference adtcore:uri="${escapeXml(objectUri)}"/>
+      </adtcore:objectReferences>
+    </objectSet>
+  </adtcore:objectSets>`;
+}
+
+/**
+ * Parses the normalized run result: programs, their test classes and test methods
+ */
+function parseRunResult(json: any): UnitTestRunResult {
+  const testClasses: UnitTestClass[] = toArray(json.program).flatMap(program =>
+    toArray(program.testClasses?.testClass).map(testClass => ({
+      name: testClass.name,
+      program: program.name,
+      riskLevel: testClass.riskLevel,
+      durationCategory: testClass.durationCategory,
+      alerts: parseAlerts(testClass.alerts),
+      methods: toArray(testClass.testMethods?.testMethod).map(method => {
+        const alerts = parseAlerts(method.alerts);
+        const executionTime = parseFloat(method.executionTime);
+        return {
+          name: method.name,
+          passed: !alerts.some(isFailure),
+          executionTime: Number.isNaN(executionTime) ? undefined : executionTime,
+          alerts
+        };
+      })
+    }))
+  );
+
+  const methods = testClasses.flatMap(testClass => testClass.methods);
+  const passed = methods.filter(method => method.passed).length;
+  const alerts = parseAlerts(json.alerts);
+  return {
+    passed: passed === methods.length && !alerts.some(isFailure) && !testClasses.some(c => c.alerts.some(isFailure)),
+    summary: {
+      testClasses: testClasses.length,
+      testMethods: methods.length,
+      passed,
+      failed: methods.length - passed,
+      executionTime: Math.round(methods.reduce((sum, method) => sum + (method.executionTime ?? 0), 0) * 1000) / 1000
+    },
+    testClasses,
+    alerts
+  };
+}
+
+function parseAlerts(alerts: any): UnitTestAlert[] {
+  return toArray(alerts?.alert).map(alert => ({
+    kind: alert.kind,
+    severity: alert.severity,
+    title: textOf(alert.title),
+    details: flattenDetails(alert.details),
+    stack: toArray(alert.stack?.stackEntry).map(entry => ({
+      name: entry.name,
+      description: entry.description,
+      uri: entry.uri,
+      line: parseSourcePosition(entry.uri).line
+    }))
+  }));
+}
+
+function isFailure(alert: UnitTestAlert): boolean {
+  return FAILING_SEVERITIES.includes(alert.severity);
+}
+
+/**
+ * Details are nested, e.g. the assertion message with the expected and actual values below it
+ */
+function flattenDetails(details: any): string[] {
+  return toArray(details?.detail).flatMap(detail => [
+    ...(detail.text ? [String(detail.text)] : []),
+    ...flattenDetails(detail.details)
+  ]);
+}
+
+function textOf(value: any): string {
+  return typeof value === 'object' && value !== null ? String(value.value ?? '') : String(value ?? '');
+}
+
+/**
+ * Reads the statement, branch and procedure coverage of the tested object
+ * from the coverage measurement of a test run
+ */
+async function fetchCoverage(measurementUri: string, objectUri: string): Promise<CoverageResult[]> {
+  const body = `<?xml version="1.0" encoding="UTF-8"?>
+<cov:query xmlns:cov="http://www.sap.com/adt/cov">
+  ${objectSets(objectUri)}
+</cov:query>`;
+  const response = await makeAdtRequest(`${await getBaseUrl()}${measurementUri}`, 'POST', 60000, body, undefined, {
+    'Content-Type': 'application/xml',
+    'Accept': 'application/xml'
+  });
+
+  const json = normalizeXml(response.data);
+  return toArray(json.nodes?.node).map(node => {
+    const result: CoverageResult = { name: node.name, type: node.type };
+    for (const coverage of toArray(node.coverages?.coverage)) {
+      const total = parseInt(coverage.total, 10);
+      const executed = parseInt(coverage.executed, 10);
+      if (['statement', 'branch', 'procedure'].includes(coverage.type) && total > 0) {
+        result[coverage.type as 'statement' | 'branch' | 'procedure'] = Math.round(executed / total * 1000) / 10;
+      }
+    }
+    return result;
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * Activation helpers for ABAP repository objects via ADT REST API
+ */
+
+import convert from 'xml-js';
+import { makeAdtRequest, getBaseUrl } from './utils';
+import { toArray, toSeverity, parseSourcePosition, escapeXml, MessageSeverity } from './adtXml';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface ObjectReference {
+  uri: string;            // ADT object URI without host, e.g. /sap/bc/adt/oo/classes/zcl_foo
+  name: string;           // Object name, e.g. ZCL_FOO
+}
+
+export interface ActivationMessage {
+  severity: MessageSeverity;
+  object?: string;        // Object description as reported by the activation log
+  uri?: string;           // ADT URI of the source position the message refers to
+  line?: number;
+  column?: number;
+  text: string;
+}
+
+export interface ActivationResult {
+  activated: boolean;                   // false on error messages or pending inactive objects
+  messages: ActivationMessage[];
+  inactiveObjects: ObjectReference[];   // Dependent objects that still need activation
+}
+
+// ============================================================================
+// Activation
+// ============================================================================
+
+/**
+ * Activates a batch of ABAP objects in one request and parses the activation log.
+ */
+export async function activateObjects(objects: ObjectReference[]): Promise<ActivationResult> {
+  const activateUrl = `${await getBaseUrl()}/sap/bc/adt/activation`;
+
+  const references = objects
+    .map(o => `  <adtcore:objectReference adtcore:uri="${escapeXml(o.uri)}" adtcore:name="${escapeXml(o.name)}"/>`)
+    .join('\n');
+
+  const activationBody = `<?xml version="1.0" encoding="UTF-8"?>
+<adtcore:objectReferences xmlns:adtcore="http://www.sap.com/adt/core">
+${references}
+</adtcore:objectReferences>`;
+
+  const response = await makeAdtRequest(activateUrl, 'POST', 60000, activationBody, {
+    'method': 'activate',
+    'preauditRequested': 'true'
+  }, {
+    'Content-Type': 'application/xml',
+    'Accept': 'application/xml'
+  });
+
+  return parseActivationResponse(response.data);
+}
+
+/**
+ * Activates a single ABAP object.
+ *
+ * @param objectUri ADT object URI without host (e.g. /sap/bc/adt/programs/programs/zfoo)
+ * @param objectName Object name as shown in the workbench (e.g. ZFOO)
+ */
+export async function activateObject(objectUri: string, objectName: string): Promise<ActivationResult> {
+  return activateObjects([{ uri: objectUri, name: objectName }]);
+}
+
+/**
+ * Formats an activation result as plain text, one line per message or pending object
+ */
+export function formatActivationResult(result: ActivationResult): string {
+  const lines = result.messages.map(m => {
+    const position = m.line !== undefined ? ` line ${m.line}${m.column !== undefined ? `, column ${m.column}` : ''}` : '';
+    const object = m.object ? ` ${m.object}` : '';
+    return `[${m.severity.toUpperCase()}]${object}${position}: ${m.text}`;
+  });
+  for (const inactive of result.inactiveObjects) {
+    lines.push(`[INACTIVE] ${inactive.name} (${inactive.uri}) must be activated together`);
+  }
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Parses the activation response. An empty body means the activation succeeded
+ * without messages; otherwise ADT returns a checklist of messages or, if further
+ * objects must be activated together, a list of inactive objects.
+ */
+function parseActivationResponse(data: any): ActivationResult {
+  const result: ActivationResult = { activated: true, messages: [], inactiveObjects: [] };
+  if (typeof data !== 'string' || data.trim() === '') {
+    return result;
+  }
+
+  const xml = convert.xml2js(data, { compact: true }) as any;
+
+  for (const msg of toArray(xml['chkl:messages']?.msg)) {
+    const attributes = msg._attributes || {};
+    const message: ActivationMessage = {
+      severity: toSeverity(attributes.type),
+      object: attributes.objDescr,
+      text: toArray(msg.shortText?.txt).map((t: any) => t._text).filter(Boolean).join(' ')
+    };
+
+    // Source positions are encoded in the href fragment, e.g. .../source/main#start=12,3
+    if (attributes.href) {
+      message.uri = String(attributes.href).split('#')[0];
+      Object.assign(message, parseSourcePosition(attributes.href));
+    }
+    result.messages.push(message);
+  }
+
+  for (const entry of toArray(xml['ioc:inactiveObjects']?.['ioc:entry'])) {
+    const ref = entry['ioc:object']?.['ioc:ref']?._attributes;
+    if (ref?.['adtcore:uri']) {
+      result.inactiveObjects.push({ uri: ref['adtcore:uri'], name: ref['adtcore:name'] });
+    }
+  }
+
+  result.activated = !result.messages.some(m => m.severity === 'error') && result.inactiveObjects.length === 0;
+  return result;
+}
@@ -0,0 +1,58 @@
+/**
+ * Shared helpers for reading and writing ADT XML payloads
+ */
+
+export type MessageSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Normalizes an xml-js compact node that may be missing, a single element or a list
+ */
+export function toArray(value: any): any[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Maps an ABAP message type (E, W, I, ...) to a severity
+ */
+export function toSeverity(type?: string): MessageSeverity {
+  switch ((type || '').toUpperCase()) {
+    case 'E':
+    case 'A':
+    case 'X':
+      return 'error';
+    case 'W':
+      return 'warning';
+    default:
+      return 'info';
+  }
+}
+
+/**
+ * Extracts line and column from an ADT source position fragment,
+ * e.g. /sap/bc/adt/programs/programs/zfoo/source/main#start=12,3
+ */
+export function parseSourcePosition(uri?: string): { line?: number; column?: number } {
+  const start = String(uri || '').match(/#start=(\d+),(\d+)/);
+  if (!start) {
+    return {};
+  }
+  return {
+    line: parseInt(start[1], 10),
+    column: parseInt(start[2], 10)
+  };
+}
+
+/**
+ * Escapes XML special characters
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
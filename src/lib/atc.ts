@@ -0,0 +1,150 @@
+/**
+ * ABAP Test Cockpit check runs via the ADT ATC worklist API
+ */
+
+import { makeAdtRequest, getBaseUrl } from './utils';
+import { toArray, parseSourcePosition, escapeXml } from './adtXml';
+import { normalizeXml } from './responseNormalizer';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface AtcFinding {
+  priority: number;       // 1 (error) to 3 (information)
+  checkId?: string;
+  checkTitle?: string;
+  messageId?: string;
+  message?: string;
+  object: string;
+  objectType?: string;
+  uri?: string;           // ADT URI of the source position
+  line?: number;
+  column?: number;
+  hasQuickfix: boolean;
+}
+
+export interface AtcResult {
+  checkVariant: string;
+  worklistId: string;
+  summary: {
+    total: number;
+    priority1: number;
+    priority2: number;
+    priority3: number;
+  };
+  findings: AtcFinding[];
+}
+
+export interface AtcOptions {
+  checkVariant?: string;  // Default: the system check variant from the ATC customizing
+  maxFindings?: number;   // Default: 100
+}
+
+// ============================================================================
+// Check Runs
+// ============================================================================
+
+/**
+ * Runs an ATC check variant on an object or package: create a worklist,
+ * run the check and read the findings of the worklist.
+ *
+ * @param objectUri ADT object URI without host (e.g. /sap/bc/adt/ddic/tables/zorders)
+ */
+export async function runAtcCheck(objectUri: string, options: AtcOptions = {}): Promise<AtcResult> {
+  const baseUrl = await getBaseUrl();
+  const checkVariant = options.checkVariant || await getDefaultCheckVariant();
+
+  // Step 1: Create a worklist for the check variant
+  const worklistResponse = await makeAdtRequest(`${baseUrl}/sap/bc/adt/atc/worklists`, 'POST', 30000, undefined, {
+    'checkVariant': checkVariant
+  }, {
+    'Accept': 'text/plain'
+  });
+  const worklistId = String(worklistResponse.data).trim();
+  if (!worklistId) {
+    throw new Error(`Failed to create an ATC worklist for check variant ${checkVariant}`);
+  }
+
+  // Step 2: Run the check on the object; packages include their subpackages
+  const runBody = `<?xml version="1.0" encoding="UTF-8"?>
+<atc:run maximumVerdicts="${escapeXml(String(options.maxFindings ?? 100))}" xmlns:atc="http://www.sap.com/adt/atc">
+  <objectSets xmlns:adtcore="http://www.sap.com/adt/core">
+    <objectSet kind="inclusive">
+      <adtcore:objectReferences>
+        <adtcore:objectReference adtcore:uri="${escapeXml(objectUri)}"/>
+      </adtcore:objectReferences>
+    </objectSet>
+  </objectSets>
+</atc:run>`;
+  await makeAdtRequest(`${baseUrl}/sap/bc/adt/atc/runs`, 'POST', 300000, runBody, {
+    'worklistId': worklistId
+  }, {
+    'Content-Type': 'application/xml',
+    'Accept': 'application/xml'
+  });
+
+  // Step 3: Read the findings
+  const resultResponse = await makeAdtRequest(`${baseUrl}/sap/bc/adt/atc/worklists/${encodeURIComponent(worklistId)}`, 'GET', 60000, undefined, {
+    'includeExemptedFindings': 'false'
+  }, {
+    'Accept': 'application/atc.worklist.v1+xml'
+  });
+
+  const findings = parseFindings(resultResponse.data);
+  return {
+    checkVariant,
+    worklistId,
+    summary: {
+      total: findings.length,
+      priority1: findings.filter(f => f.priority === 1).length,
+      priority2: findings.filter(f => f.priority === 2).length,
+      priority3: findings.filter(f => f.priority === 3).length
+    },
+    findings
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Reads the system check variant from the ATC customizing
+ */
+async function getDefaultCheckVariant(): Promise<string> {
+  const response = await makeAdtRequest(`${await getBaseUrl()}/sap/bc/adt/atc/customizing`, 'GET', 30000, undefined, undefined, {
+    'Accept': 'application/xml'
+  });
+  const properties = toArray(normalizeXml(response.data)?.properties?.property);
+  const variant = properties.find(property => property.name === 'systemCheckVariant')?.value;
+  if (!variant) {
+    throw new Error('No system check variant configured, pass a check variant');
+  }
+  return variant;
+}
+
+/**
+ * Flattens the objects of a worklist into findings, most severe first
+ */
+function parseFindings(xml: string): AtcFinding[] {
+  const json = normalizeXml(xml);
+  const findings: AtcFinding[] = toArray(json.objects?.object).flatMap(object =>
+    toArray(object.findings?.finding).map(finding => {
+      const quickfixes = finding.quickfixes || {};
+      return {
+        priority: parseInt(finding.priority, 10),
+        checkId: finding.checkId,
+        checkTitle: finding.checkTitle,
+        messageId: finding.messageId,
+        message: finding.messageTitle,
+        object: object.name,
+        objectType: object.type,
+        uri: finding.location || finding.uri,
+        ...parseSourcePosition(finding.location || finding.uri),
+        hasQuickfix: quickfixes.automatic === 'true' || quickfixes.manual === 'true'
+      };
+    })
+  );
+  return findings.sort((a, b) => a.priority - b.priority);
+}
@@ -0,0 +1,108 @@
+/**
+ * Reading many objects in one call: sources of source-based objects, parsed
+ * properties of domains, data elements and packages
+ */
+
+import axios from 'axios';
+import { makeAdtRequest, getBaseUrl } from './utils';
+import { getObjectUri, toAdtType } from './objectTypes';
+import { normalizeXml } from './responseNormalizer';
+import { shapeDomain, shapeDataElement } from './ddicTypes';
+import { shapePackage } from './packages';
+import { mapConcurrent } from './concurrency';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface ObjectRequest {
+  type: string;           // e.g. CLAS, PROG/I, FUNC
+  name: string;
+  function_group?: string;   // Required for function modules
+}
+
+export interface ObjectResult {
+  type: string;           // ADT type, e.g. CLAS/OC
+  name: string;
+  uri?: string;
+  content?: unknown;      // Source text, or the parsed properties of DDIC types and packages
+  error?: string;
+}
+
+export interface BatchOptions {
+  concurrency: number;
+  timeout: number;        // Per request, in milliseconds
+}
+
+// Objects without a source, read as parsed metadata
+const METADATA_READERS: Record<string, { accept: string; shape: (json: any) => unknown }> = {
+  'DOMA/DD': {
+    accept: 'application/vnd.sap.adt.domains.v2+xml, application/vnd.sap.adt.domains.v1+xml',
+    shape: shapeDomain
+  },
+  'DTEL/DE': {
+    accept: 'application/vnd.sap.adt.dataelements.v2+xml, application/vnd.sap.adt.dataelements.v1+xml',
+    shape: shapeDataElement
+  },
+  'DEVC/K': {
+    accept: 'application/vnd.sap.adt.packages.v1+xml',
+    shape: shapePackage
+  }
+};
+
+// ============================================================================
+// Batch Retrieval
+// ============================================================================
+
+/**
+ * Reads the objects concurrently, at most options.concurrency at a time.
+ * Each object gets its own result; a failing object is reported with its
+ * error and does not affect the others.
+ */
+export async function fetchObjects(requests: ObjectRequest[], options: BatchOptions): Promise<ObjectResult[]> {
+  return mapConcurrent(requests, options.concurrency, async request => {
+    const result: ObjectResult = { type: toAdtType(request.type), name: request.name.toUpperCase() };
+    try {
+      result.uri = getObjectUri(request.type, request.name, request.function_group);
+      result.content = await readObject(result.type, result.uri, options.timeout);
+    } catch (error: any) {
+      result.error = errorMessage(error);
+    }
+    return result;
+  });
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+async function readObject(adtType: string, objectUri: string, timeout: number): Promise<unknown> {
+  const reader = METADATA_READERS[adtType];
+  if (reader) {
+    const response = await makeAdtRequest(`${await getBaseUrl()}${objectUri}`, 'GET', timeout, undefined, undefined, {
+      'Accept': reader.accept
+    });
+    return reader.shape(normalizeXml(response.data));
+  }
+  const response = await makeAdtRequest(`${await getBaseUrl()}${objectUri}/source/main`, 'GET', timeout);
+  return String(response.data);
+}
+
+// Short per-object message: the ADT exception text instead of the whole XML body
+function errorMessage(error: any): string {
+  if (!axios.isAxiosError(error)) {
+    return error?.message || String(error);
+  }
+  const status = error.response?.status;
+  if (!status) {
+    return error.code === 'ECONNABORTED' ? 'Request timed out' : error.message;
+  }
+  if (status === 404) {
+    return 'Object not found';
+  }
+  const responseData = error.response?.data;
+  const detail = typeof responseData === 'string'
+    ? responseData.match(/<(?:\w+:)?(?:localizedMessage|message)[^>]*>([^<]+)<\//i)?.[1]
+    : undefined;
+  return `HTTP ${status}: ${detail || error.message}`;
+}
@@ -0,0 +1,117 @@
+import { parseCdsSource } from './cdsParser';
+
+describe('parseCdsSource', () => {
+  it('parses a view entity with annotations, associations and fields', () => {
+    const view = parseCdsSource(`
+@AccessControl.authorizationCheck: #CHECK
+@EndUserText.label: 'Sales orders, open'
+@Metadata.allowExtensions: true
+define root view entity ZI_SalesOrder
+  as select from zsales_order as so
+  association [0..1] to ZI_Customer as _Customer on $projection.CustomerId = _Customer.CustomerId
+  composition [0..*] of ZI_SalesOrderItem as _Item
+{
+      // Semantic key
+  key so.order_id    as OrderId,
+      @Semantics.amount.currencyCode: 'Currency'
+      so.amount      as Amount,
+      so.currency    as Currency,
+      so.customer_id as CustomerId,
+      /* associations */
+      _Customer,
+      _Item
+}`);
+
+    expect(view).toMatchObject({
+      name: 'ZI_SalesOrder',
+      definition: 'root view entity',
+      dataSource: 'zsales_order',
+      isProjection: false,
+      annotations: {
+        'AccessControl.authorizationCheck': '#CHECK',
+        'EndUserText.label': 'Sales orders, open',
+        'Metadata.allowExtensions': true
+      },
+      parameters: []
+    });
+    expect(view.associations).toEqual([
+      {
+        kind: 'association',
+        cardinality: '[0..1]',
+        target: 'ZI_Customer',
+        alias: '_Customer',
+        toParent: false,
+        condition: '$projection.CustomerId = _Customer.CustomerId'
+      },
+      {
+        kind: 'composition',
+        cardinality: '[0..*]',
+        target: 'ZI_SalesOrderItem',
+        alias: '_Item',
+        toParent: false,
+        condition: undefined
+      }
+    ]);
+    expect(view.fields.map(f => [f.name, f.expression, f.isKey, f.isAssociation])).toEqual([
+      ['OrderId', 'so.order_id', true, false],
+      ['Amount', 'so.amount', false, false],
+      ['Currency', 'so.currency', false, false],
+      ['CustomerId', 'so.customer_id', false, false],
+      ['_Customer', '_Customer', false, true],
+      ['_Item', '_Item', false, true]
+    ]);
+    expect(view.fields[1].annotations).toEqual({ 'Semantics.amount.currencyCode': 'Currency' });
+  });
+
+  it('parses parameters and expressions with nested brackets and commas', () => {
+    const view = parseCdsSource(`
+define view entity ZI_OrderValue
+  with parameters
+    @Environment.systemField: #SYSTEM_DATE
+    p_date : abap.dats,
+    p_currency : waers
+  as select from zsales_order
+{
+  key order_id,
+      cast( amount as abap.dec( 15, 2 ) ) as Amount,
+      concat( 'A,B', order_id ) as Label
+}`);
+
+    expect(view.parameters).toEqual([
+      { name: 'p_date', type: 'abap.dats' },
+      { name: 'p_currency', type: 'waers' }
+    ]);
+    expect(view.fields.map(f => [f.name, f.expression])).toEqual([
+      ['order_id', 'order_id'],
+      ['Amount', 'cast( amount as abap.dec( 15, 2 ) )'],
+      ['Label', "concat( 'A,B', order_id )"]
+    ]);
+  });
+
+  it('parses projections with redirected compositions and parent associations', () => {
+    const view = parseCdsSource(`
+define view entity ZC_SalesOrderItem
+  as projection on ZI_SalesOrderItem
+  association to parent ZC_SalesOrder as _Order on $projection.OrderId = _Order.OrderId
+{
+  key OrderId,
+  key ItemId,
+      _Order : redirected to parent ZC_SalesOrder
+}`);
+
+    expect(view.isProjection).toBe(true);
+    expect(view.dataSource).toBe('ZI_SalesOrderItem');
+    expect(view.associations[0]).toMatchObject({ alias: '_Order', toParent: true, target: 'ZC_SalesOrder' });
+    expect(view.fields.find(f => f.name === '_Order')?.isAssociation).toBe(true);
+  });
+
+  it('returns only the annotations of a source without define statement', () => {
+    expect(parseCdsSource("@EndUserText.label: 'Draft'")).toEqual({
+      isProjection: false,
+      annotations: { 'EndUserText.label': 'Draft' },
+      parameters: [],
+      associations: [],
+      fields: []
+    });
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Lightweight parser for CDS DDL sources: header annotations, parameters,
+ * data source, associations and the element list.
+ *
+ * This is not a full CDS grammar. It reads the common define view / view
+ * entity / projection forms well enough to describe a view to a model;
+ * expressions are returned as written.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type AnnotationValue = string | number | boolean;
+
+export interface CdsAssociation {
+  kind: 'association' | 'composition';
+  cardinality?: string;   // e.g. [0..1]
+  target: string;
+  alias: string;
+  toParent: boolean;
+  condition?: string;
+}
+
+export interface CdsField {
+  name: string;           // Alias, or the last part of the expression
+  expression: string;
+  isKey: boolean;
+  isAssociation: boolean; // Exposed association, e.g. _Customer
+  annotations: Record<string, AnnotationValue>;
+}
+
+export interface CdsParameter {
+  name: string;
+  type: string;
+}
+
+export interface CdsView {
+  name?: string;
+  definition?: string;    // e.g. view entity, view, root view entity, table function
+  dataSource?: string;    // Entity selected from or projected on
+  isProjection: boolean;
+  annotations: Record<string, AnnotationValue>;
+  parameters: CdsParameter[];
+  associations: CdsAssociation[];
+  fields: CdsField[];
+}
+
+const DEFINE_PATTERN = /\bdefine\s+((?:root\s+)?(?:transient\s+)?(?:view\s+entity|view|table\s+function|abstract\s+entity|custom\s+entity|hierarchy))\s+([\w\/]+)/i;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parses a CDS DDL source
+ */
+export function parseCdsSource(source: string): CdsView {
+  const text = stripComments(source);
+  const view: CdsView = {
+    isProjection: false,
+    annotations: {},
+    parameters: [],
+    associations: [],
+    fields: []
+  };
+
+  const define = DEFINE_PATTERN.exec(text);
+  const headerEnd = define ? define.index : text.length;
+  view.annotations = parseAnnotations(text.substring(0, headerEnd)).annotations;
+  if (!define) {
+    return view;
+  }
+  view.definition = define[1].replace(/\s+/g, ' ').toLowerCase();
+  view.name = define[2];
+
+  // Everything between the define statement and the element list
+  const bodyStart = findElementListStart(text, define.index + define[0].length);
+  const clause = text.substring(define.index + define[0].length, bodyStart < 0 ? text.length : bodyStart);
+
+  const parameters = clause.match(/\bwith\s+parameters\s+([\s\S]*?)\s+as\s+(?:select|projection)\b/i);
+  if (parameters) {
+    view.parameters = splitTopLevel(parameters[1])
+      .map(p => parseAnnotations(p).rest.trim())
+      .map(p => p.match(/^([\w\/]+)\s*:\s*(.+)$/))
+      .filter((m): m is RegExpMatchArray => !!m)
+      .map(m => ({ name: m[1], type: m[2].trim() }));
+  }
+
+  const dataSource = clause.match(/\bas\s+(select\s+(?:distinct\s+)?from|projection\s+on)\s+([\w\/]+)/i);
+  if (dataSource) {
+    view.isProjection = /^projection/i.test(dataSource[1]);
+    view.dataSource = dataSource[2];
+  }
+
+  view.associations = parseAssociations(clause);
+
+  if (bodyStart >= 0) {
+    const bodyEnd = findClosing(text, bodyStart);
+    const aliases = new Set(view.associations.map(a => a.alias.toUpperCase()));
+    view.fields = splitTopLevel(text.substring(bodyStart + 1, bodyEnd))
+      .map(element => parseElement(element, aliases))
+      .filter((f): f is CdsField => !!f);
+  }
+  return view;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Removes // and /* *\/ comments outside of string literals
+ */
+function stripComments(source: string): string {
+  let result = '';
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === "'") {
+      const end = source.indexOf("'", i + 1);
+      const stop = end < 0 ? source.length : end + 1;
+      result += source.substring(i, stop);
+      i = stop;
+    } else if (source.startsWith('//', i) || source.startsWith('--', i)) {
+      const end = source.indexOf('\n', i);
+      i = end < 0 ? source.length : end;
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      i = end < 0 ? source.length : end + 2;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Reads the annotations at the start of a text
+ *
+ * @returns The annotations and the text after them
+ */
+function parseAnnotations(text: string): { annotations: Record<string, AnnotationValue>; rest: string } {
+  const annotations: Record<string, AnnotationValue> = {};
+  let i = 0;
+  for (;;) {
+    while (i < text.length && /\s/.test(text[i])) {
+      i++;
+    }
+    const match = /^@<?([\w.]+)\s*(:)?\s*/.exec(text.substring(i));
+    if (!match) {
+      break;
+    }
+    i += match[0].length;
+    if (!match[2]) {
+      // Annotation without value, e.g. @Analytics.dataCategory alone means true
+      annotations[match[1]] = true;
+      continue;
+    }
+
+    let end = i;
+    if (text[i] === '{' || text[i] === '[') {
+      end = findClosing(text, i) + 1;
+    } else if (text[i] === "'") {
+      end = text.indexOf("'", i + 1) + 1 || text.length;
+    } else {
+      while (end < text.length && !/[\s,@]/.test(text[end])) {
+        end++;
+      }
+    }
+    annotations[match[1]] = toAnnotationValue(text.substring(i, end));
+    i = end;
+  }
+  return { annotations, rest: text.substring(i) };
+}
+
+function toAnnotationValue(raw: string): AnnotationValue {
+  const value = raw.trim();
+  if (/^'.*'$/s.test(value)) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  // Enum values (#CHECK) and structured values ({ ... }, [ ... ]) are kept as written
+  return value.replace(/\s+/g, ' ');
+}
+
+function parseAssociations(clause: string): CdsAssociation[] {
+  const pattern = /\b(association|composition)\s*(\[[^\]]*\])?\s*(?:(to\s+parent)|to|of)\s+(?:(\[[^\]]*\])\s*)?([\w\/]+)(?:\s+as\s+(\w+))?(?:\s+on\s+([\s\S]*?))?(?=\s+\b(?:association|composition|inner|left|right|cross|join)\b|\s*$)/gi;
+  const associations: CdsAssociation[] = [];
+  for (const match of clause.matchAll(pattern)) {
+    associations.push({
+      kind: match[1].toLowerCase() as CdsAssociation['kind'],
+      cardinality: match[2] || match[4] || undefined,
+      target: match[5],
+      alias: match[6] || match[5],
+      toParent: !!match[3],
+      condition: match[7]?.replace(/\s+/g, ' ').trim() || undefined
+    });
+  }
+  return associations;
+}
+
+function parseElement(element: string, associationAliases: Set<string>): CdsField | undefined {
+  const { annotations, rest } = parseAnnotations(element);
+  let expression = rest.trim();
+  if (!expression) {
+    return undefined;
+  }
+
+  const key = /^key\s+/i.exec(expression);
+  if (key) {
+    expression = expression.substring(key[0].length);
+  }
+  expression = expression.replace(/^virtual\s+/i, '');
+
+  // Typed elements (virtual x : abap.char(1)) and redirections in projections (_Item : redirected to ...)
+  const typing = splitTopLevel(expression, ':');
+  expression = typing[0].trim();
+  const isRedirected = typing.length > 1 && /^\s*redirected\b/i.test(typing[1]);
+
+  let name: string;
+  const alias = /\s+as\s+([\w\/]+)$/i.exec(expression);
+  if (alias) {
+    name = alias[1];
+    expression = expression.substring(0, alias.index).trim();
+  } else {
+    name = expression.split('.').pop()!.trim();
+  }
+
+  return {
+    name,
+    expression: expression.replace(/\s+/g, ' '),
+    isKey: !!key,
+    isAssociation: isRedirected || (associationAliases.has(name.toUpperCase()) && /^[\w\/]+$/.test(expression)),
+    annotations
+  };
+}
+
+/**
+ * Finds the "{" that opens the element list, skipping braces inside annotations
+ */
+function findElementListStart(text: string, from: number): number {
+  let i = from;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === "'") {
+      i = text.indexOf("'", i + 1) + 1 || text.length;
+      continue;
+    }
+    if (char === '@') {
+      // Parameter annotations may contain braces
+      i = skipAnnotation(text, i);
+      continue;
+    }
+    if (char === '{') {
+      return i;
+    }
+    i++;
+  }
+  return -1;
+}
+
+function skipAnnotation(text: string, at: number): number {
+  const match = /^@<?[\w.]+\s*:?\s*/.exec(text.substring(at));
+  let i = at + (match ? match[0].length : 1);
+  if (text[i] === '{' || text[i] === '[') {
+    i = findClosing(text, i) + 1;
+  }
+  return i;
+}
+
+/**
+ * Returns the position of the bracket closing the one at start
+ */
+function findClosing(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === "'") {
+      i = text.indexOf("'", i + 1);
+      if (i < 0) {
+        break;
+      }
+    } else if ('{[('.includes(char)) {
+      depth++;
+    } else if ('}])'.includes(char)) {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Splits at separators that are not inside brackets or string literals
+ */
+function splitTopLevel(text: string, separator = ','): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "'") {
+      const end = text.indexOf("'", i + 1);
+      const stop = end < 0 ? text.length : end + 1;
+      current += text.substring(i, stop);
+      i = stop - 1;
+      continue;
+    }
+    if ('{[('.includes(char)) {
+      depth++;
+    } else if ('}])'.includes(char)) {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) {
+    parts.push(current);
+  }
+  return parts;
+}
@@ -0,0 +1,21 @@
+/**
+ * Bounded parallelism for batches of ADT requests
+ */
+
+/**
+ * Maps items with an async function, running at most limit calls at a time.
+ * The results keep the order of the items; a rejected call rejects the whole
+ * map, so callers that want per-item errors catch them in fn.
+ */
+export async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
@@ -0,0 +1,115 @@
+/**
+ * Access to the standard ADT data preview (DDIC and freestyle SQL)
+ */
+
+import convert from 'xml-js';
+import { makeAdtRequest, getBaseUrl } from './utils';
+import { toArray } from './adtXml';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface DataPreviewColumn {
+  name: string;
+  type?: string;          // ABAP type, e.g. C, N, P, D
+  description?: string;
+  length?: number;
+  isKey: boolean;
+}
+
+export interface DataPreviewResult {
+  columns: DataPreviewColumn[];
+  rows: Record<string, string>[];
+  totalRows?: number;          // Rows matching the query, may exceed rows.length
+  executedQuery?: string;
+  executionTime?: number;      // Milliseconds as reported by the backend
+}
+
+export interface DataPreviewRequest {
+  query: string;               // ABAP SQL SELECT statement
+  maxRows: number;
+  entity?: string;             // DDIC entity for the DDIC preview; freestyle preview if omitted
+}
+
+// ============================================================================
+// Data Preview
+// ============================================================================
+
+/**
+ * Executes a SELECT through the data preview and returns the result row-wise
+ */
+export async function runDataPreview(request: DataPreviewRequest): Promise<DataPreviewResult> {
+  const baseUrl = await getBaseUrl();
+  const url = request.entity
+    ? `${baseUrl}/sap/bc/adt/datapreview/ddic`
+    : `${baseUrl}/sap/bc/adt/datapreview/freestyle`;
+  const params: Record<string, string | number> = { rowNumber: request.maxRows };
+  if (request.entity) {
+    params['ddicEntityName'] = request.entity;
+  }
+
+  const response = await makeAdtRequest(url, 'POST', 60000, request.query, params, {
+    'Content-Type': 'text/plain',
+    'Accept': 'application/xml, application/vnd.sap.adt.datapreview.table.v1+xml'
+  });
+
+  return parseDataPreview(response.data);
+}
+
+/**
+ * Extracts the message text of a data preview error response (e.g. an SQL
+ * parse error), falling back to the raw body
+ */
+export function getDataPreviewError(data: any): string {
+  const text = String(data ?? '');
+  const match = text.match(/<(?:\w+:)?localizedMessage[^>]*>([^<]+)<\//i)
+    || text.match(/<(?:\w+:)?message[^>]*>([^<]+)<\//i);
+  return match ? match[1].trim() : text.substring(0, 500);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * The preview returns its data column by column; this turns it into rows
+ */
+function parseDataPreview(data: any): DataPreviewResult {
+  const xml = convert.xml2js(data, { compact: true }) as any;
+  const table = xml['dataPreview:tableData'] || {};
+
+  const columns: DataPreviewColumn[] = [];
+  const values: string[][] = [];
+  for (const column of toArray(table['dataPreview:columns'])) {
+    const metadata = column['dataPreview:metadata']?._attributes || {};
+    columns.push({
+      name: metadata['dataPreview:name'],
+      type: metadata['dataPreview:type'],
+      description: metadata['dataPreview:description'],
+      length: metadata['dataPreview:length'] !== undefined ? parseInt(metadata['dataPreview:length'], 10) : undefined,
+      isKey: metadata['dataPreview:keyAttribute'] === 'true'
+    });
+    values.push(toArray(column['dataPreview:dataSet']?.['dataPreview:data']).map(d => d._text ?? ''));
+  }
+
+  const rowCount = Math.max(0, ...values.map(v => v.length));
+  const rows: Record<string, string>[] = [];
+  for (let i = 0; i < rowCount; i++) {
+    const row: Record<string, string> = {};
+    columns.forEach((column, c) => {
+      row[column.name] = values[c][i] ?? '';
+    });
+    rows.push(row);
+  }
+
+  const totalRows = table['dataPreview:totalRows']?._text;
+  const executionTime = table['dataPreview:queryExecutionTime']?._text;
+  return {
+    columns,
+    rows,
+    totalRows: totalRows !== undefined ? parseInt(totalRows, 10) : undefined,
+    executedQuery: table['dataPreview:executedQueryString']?._text,
+    executionTime: executionTime !== undefined ? parseFloat(executionTime) : undefined
+  };
+}
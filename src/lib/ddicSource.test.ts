@@ -0,0 +1,211 @@
+import { applyFieldOperations, listDdlFields } from './ddicSource';
+
+const TABLE_SOURCE = [
+  "@EndUserText.label : 'Orders'",
+  '@AbapCatalog.tableCategory : #TRANSPARENT',
+  'define table zorders {',
+  '  key client   : abap.clnt not null;',
+  '  key order_id : abap.numc(10) not null;',
+  '  include zorder_admin;',
+  '  // Customer data',
+  '  @EndUserText.label : \'Customer\'',
+  '  customer     : kunnr;',
+  '  /* amounts */',
+  '  amount       : abap.dec(15,2);',
+  '  append zorders_ext;',
+  '',
+  '}'
+].join('\n');
+
+const STRUCTURE_SOURCE = [
+  'define structure zorder_line {',
+  '  item  : abap.numc(6);',
+  '  text  : abap.char(40);',
+  '}'
+].join('\n');
+
+// The component lines between "define table ... {" and "}"
+const body = (source: string) => {
+  const lines = source.split('\n');
+  return lines.slice(lines.findIndex(l => l.startsWith('define')) + 1, lines.lastIndexOf('}'));
+};
+
+describe('applyFieldOperations', () => {
+  describe('add', () => {
+    it('adds a field at the end, before trailing blank lines, aligned with the other fields', () => {
+      const { source, warnings } = applyFieldOperations(TABLE_SOURCE, [
+        { action: 'add', name: 'CURRENCY', type: 'waers' }
+      ], true);
+      expect(body(source).slice(-3)).toEqual([
+        '  append zorders_ext;',
+        '  currency     : waers;',
+        ''
+      ]);
+      expect(warnings).toEqual([]);
+    });
+
+    it('adds a field after the given field', () => {
+      const { source } = applyFieldOperations(TABLE_SOURCE, [
+        { action: 'add', name: 'status', type: 'abap.char(1)', notNull: true, after: 'customer' }
+      ], true);
+      const lines = body(source);
+      expect(lines[lines.indexOf('  customer     : kunnr;') + 1]).toBe('  status       : abap.char(1) not null;');
+    });
+
+    it('adds key fields after the last key field and warns about the conversion', () => {
+      const { source, warnings } = applyFieldOperations(TABLE_SOURCE, [
+        { action: 'add', name: 'item', type: 'abap.numc(6)', isKey: true }
+      ], true);
+      expect(body(source).slice(0, 3)).toEqual([
+        '  key client   : abap.clnt not null;',
+        '  key order_id : abap.numc(10) not null;',
+        '  key item     : abap.numc(6) not null;'
+      ]);
+      expect(warnings).toEqual([expect.stringContaining('changes the primary key')]);
+    });
+
+    it('ignores the key flag for structures', () => {
+      const { source } = applyFieldOperations(STRUCTURE_SOURCE, [
+        { action: 'add', name: 'qty', type: 'abap.quan(13,3)', isKey: true }
+      ], false);
+      expect(body(source)).toEqual([
+        '  item  : abap.numc(6);',
+        '  text  : abap.char(40);',
+        '  qty   : abap.quan(13,3);'
+      ]);
+    });
+
+    it('rejects a duplicate field, ignoring case', () => {
+      expect(() => applyFieldOperations(TABLE_SOURCE, [{ action: 'add', name: 'CUSTOMER', type: 'kunnr' }], true))
+        .toThrow('Field CUSTOMER already exists');
+    });
+
+    it('rejects a field without type', () => {
+      expect(() => applyFieldOperations(TABLE_SOURCE, [{ action: 'add', name: 'currency' }], true))
+        .toThrow('type is required');
+    });
+
+    it('rejects an unknown after field', () => {
+      expect(() => applyFieldOperations(TABLE_SOURCE, [{ action: 'add', name: 'currency', type: 'waers', after: 'missing' }], true))
+        .toThrow('Field missing does not exist');
+    });
+  });
+
+  describe('modify', () => {
+    it('changes the type and keeps the annotations of the field', () => {
+      const { source, warnings } = applyFieldOperations(TABLE_SOURCE, [
+        { action: 'modify', name: 'customer', type: 'abap.char(10)' }
+      ], true);
+      const lines = body(source);
+      const index = lines.indexOf('  customer     : abap.char(10);');
+      expect(index).toBeGreaterThan(0);
+      expect(lines[index - 1]).toBe('  @EndUserText.label : \'Customer\'');
+      expect(warnings).toEqual([expect.stringContaining('check that the types are compatible')]);
+    });
+
+    it('warns when a field is shortened or loses decimals', () => {
+      const { warnings } = applyFieldOperations(TABLE_SOURCE, [
+        { action: 'modify', name: 'amount', type: 'abap.dec(10,0)' }
+      ], true);
+      expect(warnings).toEqual([
+        expect.stringContaining('shortened from 15 to 10'),
+        expect.stringContaining('reduced from 2 to 0')
+      ]);
+    });
+
+    it('does not warn when a field is lengthened', () => {
+      const { warnings } = applyFieldOperations(TABLE_SOURCE, [
+        { action: 'modify', name: 'order_id', type: 'abap.numc(12)' }
+      ], true);
+      expect(warnings).toEqual([]);
+    });
+
+    it('changes the key flag', () => {
+      const { source, warnings } = applyFieldOperations(TABLE_SOURCE, [
+        { action: 'modify', name: 'customer', isKey: true }
+      ], true);
+      expect(body(source)).toContain('  key customer : kunnr not null;');
+      expect(warnings).toEqual([expect.stringContaining('key flag')]);
+    });
+
+    it('leaves the source unchanged if nothing differs', () => {
+      const { source } = applyFieldOperations(TABLE_SOURCE, [
+        { action: 'modify', name: 'customer', type: 'kunnr' }
+      ], true);
+      expect(source).toBe(TABLE_SOURCE);
+    });
+
+    it('rejects a missing field', () => {
+      expect(() => applyFieldOperations(TABLE_SOURCE, [{ action: 'modify', name: 'missing', type: 'kunnr' }], true))
+        .toThrow('Field missing does not exist');
+    });
+  });
+
+  describe('remove', () => {
+    it('removes a field with its annotations and warns about data loss', () => {
+      const { source, warnings } = applyFieldOperations(TABLE_SOURCE, [
+        { action: 'remove', name: 'customer' }
+      ], true);
+      expect(source).not.toContain('customer');
+      expect(source).not.toContain("'Customer'");
+      expect(warnings).toEqual(['Removing field customer deletes its data']);
+    });
+
+    it('does not warn for structures', () => {
+      const { source, warnings } = applyFieldOperations(STRUCTURE_SOURCE, [
+        { action: 'remove', name: 'TEXT' }
+      ], false);
+      expect(body(source)).toEqual(['  item  : abap.numc(6);']);
+      expect(warnings).toEqual([]);
+    });
+
+    it('rejects a missing field', () => {
+      expect(() => applyFieldOperations(TABLE_SOURCE, [{ action: 'remove', name: 'missing' }], true))
+        .toThrow('Field missing does not exist');
+    });
+  });
+
+  it('keeps include and append lines and comments between fields', () => {
+    const { source } = applyFieldOperations(TABLE_SOURCE, [
+      { action: 'remove', name: 'amount' },
+      { action: 'add', name: 'currency', type: 'waers', after: 'customer' }
+    ], true);
+    expect(body(source)).toEqual([
+      '  key client   : abap.clnt not null;',
+      '  key order_id : abap.numc(10) not null;',
+      '  include zorder_admin;',
+      '  // Customer data',
+      '  @EndUserText.label : \'Customer\'',
+      '  customer     : kunnr;',
+      '  currency     : waers;',
+      '  /* amounts */',
+      '  append zorders_ext;',
+      ''
+    ]);
+    expect(source.split('\n').slice(0, 3)).toEqual(TABLE_SOURCE.split('\n').slice(0, 3));
+  });
+
+  it('applies the operations in order', () => {
+    const { source } = applyFieldOperations(STRUCTURE_SOURCE, [
+      { action: 'add', name: 'qty', type: 'abap.int4' },
+      { action: 'modify', name: 'qty', type: 'abap.int8' }
+    ], false);
+    expect(body(source)).toContain('  qty   : abap.int8;');
+  });
+
+  it('rejects sources without a define table or structure block', () => {
+    expect(() => applyFieldOperations('define view entity zi_order as select from zorders { key order_id }', [], true))
+      .toThrow('Unsupported DDL source');
+  });
+});
+
+describe('listDdlFields', () => {
+  it('lists the fields without includes and appends', () => {
+    expect(listDdlFields(TABLE_SOURCE)).toEqual([
+      { name: 'client', type: 'abap.clnt', isKey: true },
+      { name: 'order_id', type: 'abap.numc(10)', isKey: true },
+      { name: 'customer', type: 'kunnr', isKey: false },
+      { name: 'amount', type: 'abap.dec(15,2)', isKey: false }
+    ]);
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Field-level changes to the DDL source of DDIC tables and structures
+ */
+
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { fetchSource } from './sourceFetch';
+import { updateSource } from './sourceUpdate';
+import { unifiedDiff } from './diff';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface FieldOperation {
+  action: 'add' | 'remove' | 'modify';
+  name: string;
+  type?: string;          // New type for add / modify, e.g. 'abap.char(20)' or a data element
+  isKey?: boolean;        // Tables only
+  notNull?: boolean;
+  after?: string;         // Add only: insert after this field instead of at the end
+}
+
+export interface AlterDdicRequest {
+  uri: string;            // ADT URI, e.g. /sap/bc/adt/ddic/tables/zfoo
+  name: string;
+  isTable: boolean;       // Tables have key fields and data that may need conversion
+  operations: FieldOperation[];
+  transportRequest?: string;
+  activate?: boolean;     // Default: true
+  dryRun?: boolean;       // Only compute the diff, do not upload
+}
+
+export interface AlterDdicResult {
+  diff: string;
+  warnings: string[];     // Changes that may require a table conversion or lose data
+  source: string;         // Resulting DDL source
+  message?: string;       // Result of the upload, unless dry run
+}
+
+interface FieldEntry {
+  kind: 'field';
+  lines: string[];        // Annotation lines followed by the field line, as in the source
+  name: string;
+  type: string;
+  isKey: boolean;
+  notNull: boolean;
+  changed: boolean;
+}
+
+interface OtherEntry {
+  kind: 'other';
+  lines: string[];        // Includes, comments and blank lines, kept as they are
+}
+
+type Entry = FieldEntry | OtherEntry;
+
+// key client : abap.clnt not null;
+const FIELD_PATTERN = /^\s*(key\s+)?([A-Za-z0-9_\/]+)\s*:\s*(.+?)(\s+not\s+null)?\s*;\s*$/i;
+
+// abap.char(10), abap.dec(15,2)
+const BUILTIN_TYPE_PATTERN = /^abap\.(\w+)(?:\((\d+)(?:\s*,\s*(\d+))?\))?$/i;
+
+// ============================================================================
+// Alter
+// ============================================================================
+
+/**
+ * Reads the current DDL, applies the field operations, and uploads and
+ * activates the result unless it is a dry run
+ *
+ * @throws {Error} If an operation does not fit the current fields
+ */
+export async function alterDdicSource(request: AlterDdicRequest): Promise<AlterDdicResult> {
+  // The inactive version is the current working state if there is one
+  const oldSource = await fetchSource(request.uri, 'inactive');
+  const { source, warnings } = applyFieldOperations(oldSource, request.operations, request.isTable);
+  const diff = unifiedDiff(oldSource, source, {
+    fromLabel: `${request.name} (current)`,
+    toLabel: `${request.name} (altered)`
+  });
+
+  if (request.dryRun || !diff) {
+    return { diff, warnings, source };
+  }
+
+  const message = await updateSource(request.uri, request.name, source, {
+    transportRequest: request.transportRequest,
+    activate: request.activate ?? true
+  });
+  return { diff, warnings, source, message };
+}
+
+/**
+ * Checks the operations argument of the alter tools
+ *
+ * @throws {McpError} If the operations are missing or malformed
+ */
+export function validateFieldOperations(operations: any): asserts operations is FieldOperation[] {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'At least one field operation is required');
+  }
+  for (const operation of operations) {
+    if (!['add', 'remove', 'modify'].includes(operation?.action) || !operation.name) {
+      throw new McpError(ErrorCode.InvalidParams, 'Each operation must have an action (add, remove, modify) and a field name');
+    }
+  }
+}
+
+/**
+ * Summarizes an alter result: outcome, conversion warnings and the DDL diff
+ */
+export function formatAlterResult(label: string, result: AlterDdicResult): string {
+  if (!result.diff) {
+    return `${label} is unchanged, nothing to upload`;
+  }
+  const parts = [result.message ?? `Dry run: ${label} was not changed`];
+  if (result.warnings.length > 0) {
+    parts.push(`⚠️ Warnings:\n${result.warnings.map(w => `- ${w}`).join('\n')}`);
+  }
+  parts.push(`DDL diff:\n\`\`\`diff\n${result.diff}\n\`\`\``);
+  return parts.join('\n\n');
+}
+
+/**
+ * Applies add / remove / modify operations to a table or structure DDL source.
+ * Untouched lines are kept as they are.
+ */
+export function applyFieldOperations(
+  source: string,
+  operations: FieldOperation[],
+  isTable: boolean
+): { source: string; warnings: string[] } {
+  const lines = source.split(/\r?\n/);
+  const { start, end } = findComponentBlock(lines);
+  const entries = parseEntries(lines.slice(start + 1, end));
+  const warnings: string[] = [];
+  const findField = (name: string) =>
+    entries.find((e): e is FieldEntry => e.kind === 'field' && e.name.toUpperCase() === name.toUpperCase());
+
+  for (const operation of operations) {
+    const field = findField(operation.name);
+    switch (operation.action) {
+      case 'add': {
+        if (field) {
+          throw new Error(`Field ${operation.name} already exists`);
+        }
+        if (!operation.type) {
+          throw new Error(`Field ${operation.name}: type is required to add a field`);
+        }
+        const entry: FieldEntry = {
+          kind: 'field',
+          lines: [],
+          name: operation.name.toLowerCase(),
+          type: operation.type,
+          isKey: isTable && !!operation.isKey,
+          notNull: !!operation.notNull || (isTable && !!operation.isKey),
+          changed: true
+        };
+        entries.splice(insertPosition(entries, operation, entry.isKey), 0, entry);
+        if (entry.isKey) {
+          warnings.push(`Adding key field ${operation.name} changes the primary key and requires a table conversion`);
+        }
+        break;
+      }
+      case 'remove': {
+        if (!field) {
+          throw new Error(`Field ${operation.name} does not exist`);
+        }
+        entries.splice(entries.indexOf(field), 1);
+        if (isTable) {
+          warnings.push(field.isKey
+            ? `Removing key field ${field.name} changes the primary key and requires a table conversion`
+            : `Removing field ${field.name} deletes its data`);
+        }
+        break;
+      }
+      case 'modify': {
+        if (!field) {
+          throw new Error(`Field ${operation.name} does not exist`);
+        }
+        if (operation.type && operation.type !== field.type) {
+          if (isTable) {
+            warnings.push(...typeChangeWarnings(field.name, field.type, operation.type));
+          }
+          field.type = operation.type;
+          field.changed = true;
+        }
+        if (isTable && operation.isKey !== undefined && operation.isKey !== field.isKey) {
+          warnings.push(`Changing the key flag of ${field.name} changes the primary key and requires a table conversion`);
+          field.isKey = operation.isKey;
+          field.notNull = field.notNull || operation.isKey;
+          field.changed = true;
+        }
+        if (operation.notNull !== undefined && operation.notNull !== field.notNull && !field.isKey) {
+          field.notNull = operation.notNull;
+          field.changed = true;
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unknown field operation: ${(operation as any).action}`);
+    }
+  }
+
+  // Align changed fields with the first unchanged one, e.g. "  key client   : abap.clnt"
+  const alignedField = entries.find((e): e is FieldEntry => e.kind === 'field' && !e.changed);
+  const alignedLine = alignedField?.lines[alignedField.lines.length - 1];
+  const colonColumn = alignedLine ? alignedLine.indexOf(':') : 0;
+  const body = entries.flatMap(entry => entry.kind === 'field' && entry.changed ? renderField(entry, colonColumn) : entry.lines);
+  return {
+    source: [...lines.slice(0, start + 1), ...body, ...lines.slice(end)].join('\n'),
+    warnings
+  };
+}
+
+/**
+ * Lists the fields of a table or structure DDL source; includes are not resolved
+ */
+export function listDdlFields(source: string): { name: string; type: string; isKey: boolean }[] {
+  const lines = source.split(/\r?\n/);
+  const { start, end } = findComponentBlock(lines);
+  return parseEntries(lines.slice(start + 1, end))
+    .filter((e): e is FieldEntry => e.kind === 'field')
+    .map(({ name, type, isKey }) => ({ name, type, isKey }));
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Finds the lines that open and close the component list
+ *
+ * @throws {Error} If the source has no define table / define structure block
+ */
+function findComponentBlock(lines: string[]): { start: number; end: number } {
+  const start = lines.findIndex(line => /^\s*define\s+(table|structure)\b.*\{\s*$/i.test(line));
+  let end = -1;
+  for (let i = lines.length - 1; i > start; i--) {
+    if (/^\s*\}\s*$/.test(lines[i])) {
+      end = i;
+      break;
+    }
+  }
+  if (start < 0 || end < 0) {
+    throw new Error('Unsupported DDL source: no "define table" or "define structure" block found');
+  }
+  return { start, end };
+}
+
+/**
+ * Splits the component lines into fields (with their annotations) and other lines
+ */
+function parseEntries(lines: string[]): Entry[] {
+  const entries: Entry[] = [];
+  let annotations: string[] = [];
+  for (const line of lines) {
+    if (/^\s*@/.test(line)) {
+      annotations.push(line);
+      continue;
+    }
+    const match = line.match(FIELD_PATTERN);
+    if (match) {
+      entries.push({
+        kind: 'field',
+        lines: [...annotations, line],
+        name: match[2],
+        type: match[3].trim(),
+        isKey: !!match[1],
+        notNull: !!match[4],
+        changed: false
+      });
+    } else {
+      entries.push({ kind: 'other', lines: [...annotations, line] });
+    }
+    annotations = [];
+  }
+  if (annotations.length > 0) {
+    entries.push({ kind: 'other', lines: annotations });
+  }
+  return entries;
+}
+
+/**
+ * Renders a changed field, keeping its annotations, indentation and the
+ * column of the colon used by the other fields
+ */
+function renderField(entry: FieldEntry, colonColumn: number): string[] {
+  const original = entry.lines[entry.lines.length - 1];
+  const indent = original?.match(/^\s*/)?.[0] || '  ';
+  const annotations = entry.lines.slice(0, -1);
+  const declaration = `${indent}${entry.isKey ? 'key ' : ''}${entry.name}`;
+  return [...annotations, `${declaration.padEnd(colonColumn)}: ${entry.type}${entry.notNull ? ' not null' : ''};`];
+}
+
+/**
+ * New fields go after the given field, key fields after the last key field,
+ * everything else at the end
+ */
+function insertPosition(entries: Entry[], operation: FieldOperation, isKey: boolean): number {
+  if (operation.after) {
+    const index = entries.findIndex(e => e.kind === 'field' && e.name.toUpperCase() === operation.after!.toUpperCase());
+    if (index < 0) {
+      throw new Error(`Field ${operation.after} does not exist`);
+    }
+    return index + 1;
+  }
+  if (isKey) {
+    let lastKey = -1;
+    entries.forEach((e, i) => {
+      if (e.kind === 'field' && e.isKey) {
+        lastKey = i;
+      }
+    });
+    return lastKey + 1;
+  }
+  // Trailing blank lines stay at the end
+  let position = entries.length;
+  while (position > 0 && entries[position - 1].kind === 'other' && entries[position - 1].lines.every(l => !l.trim())) {
+    position--;
+  }
+  return position;
+}
+
+/**
+ * Warns about type changes that need a conversion of the existing data
+ */
+function typeChangeWarnings(name: string, oldType: string, newType: string): string[] {
+  const oldMatch = oldType.match(BUILTIN_TYPE_PATTERN);
+  const newMatch = newType.match(BUILTIN_TYPE_PATTERN);
+  if (!oldMatch || !newMatch) {
+    return [`Type of ${name} changes from ${oldType} to ${newType}; check that the types are compatible, otherwise the table must be converted`];
+  }
+  if (oldMatch[1].toLowerCase() !== newMatch[1].toLowerCase()) {
+    return [`Type of ${name} changes from ${oldType} to ${newType}, which requires a table conversion`];
+  }
+
+  const warnings: string[] = [];
+  const [oldLength, newLength] = [oldMatch[2], newMatch[2]].map(v => v === undefined ? undefined : parseInt(v, 10));
+  const [oldDecimals, newDecimals] = [oldMatch[3], newMatch[3]].map(v => parseInt(v ?? '0', 10));
+  if (oldLength !== undefined && newLength !== undefined && newLength < oldLength) {
+    warnings.push(`Field ${name} is shortened from ${oldLength} to ${newLength}, which requires a table conversion and may truncate data`);
+  }
+  if (newDecimals < oldDecimals) {
+    warnings.push(`Decimals of ${name} are reduced from ${oldDecimals} to ${newDecimals}, which requires a table conversion and may round data`);
+  }
+  return warnings;
+}
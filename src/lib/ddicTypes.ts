@@ -0,0 +1,139 @@
+/**
+ * Domains and data elements: parsed properties as returned by GetTypeInfo
+ * and the limits the create tools validate against
+ */
+
+import { toArray } from './adtXml';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface FixedValue {
+  low: string;
+  high?: string;          // Upper bound for value ranges
+  description?: string;
+}
+
+export interface DomainInfo {
+  kind: 'domain';
+  name: string;
+  description?: string;
+  package?: string;
+  dataType: string;       // DDIC type, e.g. CHAR, NUMC, DEC
+  length: number;
+  decimals: number;
+  outputLength?: number;
+  conversionExit?: string;
+  signed: boolean;
+  lowercase: boolean;
+  valueTable?: string;
+  fixedValues: FixedValue[];
+}
+
+export interface FieldLabels {
+  short?: string;
+  medium?: string;
+  long?: string;
+  heading?: string;
+}
+
+export interface DataElementInfo {
+  kind: 'dataElement';
+  name: string;
+  description?: string;
+  package?: string;
+  typeKind: string;       // domain, predefinedAbapType, refToClassOrInterfaceType, ...
+  typeName?: string;      // Domain or referenced type
+  dataType?: string;
+  length?: number;
+  decimals?: number;
+  labels: FieldLabels;
+  searchHelp?: string;
+  parameterId?: string;   // SET/GET parameter
+}
+
+// Maximum lengths of the field labels of a data element
+export const LABEL_MAX_LENGTHS: Required<Record<keyof FieldLabels, number>> = {
+  short: 10,
+  medium: 20,
+  long: 40,
+  heading: 55
+};
+
+// DDIC data types that take no length, their length is given by the type
+export const FIXED_LENGTH_TYPES = ['INT1', 'INT2', 'INT4', 'INT8', 'DATS', 'TIMS', 'DATN', 'TIMN', 'UTCL', 'FLTP', 'D16N', 'D34N', 'STRING', 'RSTR', 'CLNT', 'LANG'];
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Projects a normalized domain document (see responseNormalizer) onto DomainInfo
+ */
+export function shapeDomain(json: any): DomainInfo {
+  const content = json.content || {};
+  const typeInformation = content.typeInformation || {};
+  const outputInformation = content.outputInformation || {};
+  const valueInformation = content.valueInformation || {};
+
+  return {
+    kind: 'domain',
+    name: json.name,
+    description: json.description,
+    package: json.packageRef?.name,
+    dataType: typeInformation.datatype,
+    length: toNumber(typeInformation.length) ?? 0,
+    decimals: toNumber(typeInformation.decimals) ?? 0,
+    outputLength: toNumber(outputInformation.length),
+    conversionExit: outputInformation.conversionExit || undefined,
+    signed: outputInformation.signExists === 'true',
+    lowercase: outputInformation.lowercase === 'true',
+    valueTable: valueInformation.valueTableRef?.name || undefined,
+    fixedValues: toArray(valueInformation.fixValues?.fixValue).map(v => ({
+      low: v.low,
+      high: v.high || undefined,
+      description: v.text || undefined
+    }))
+  };
+}
+
+/**
+ * Projects a normalized data element document (see responseNormalizer) onto DataElementInfo
+ */
+export function shapeDataElement(json: any): DataElementInfo {
+  const dataElement = json.dataElement || {};
+
+  return {
+    kind: 'dataElement',
+    name: json.name,
+    description: json.description,
+    package: json.packageRef?.name,
+    typeKind: dataElement.typeKind,
+    typeName: dataElement.typeName || undefined,
+    dataType: dataElement.dataType || undefined,
+    length: toNumber(dataElement.dataTypeLength),
+    decimals: toNumber(dataElement.dataTypeDecimals),
+    labels: {
+      short: dataElement.shortFieldLabel || undefined,
+      medium: dataElement.mediumFieldLabel || undefined,
+      long: dataElement.longFieldLabel || undefined,
+      heading: dataElement.headingFieldLabel || undefined
+    },
+    searchHelp: dataElement.searchHelp || undefined,
+    parameterId: dataElement.setGetParameter || undefined
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+// Lengths come zero-padded, e.g. 000010
+function toNumber(value: any): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const number = parseInt(value, 10);
+  return Number.isNaN(number) ? undefined : number;
+}
@@ -0,0 +1,110 @@
+import { unifiedDiff } from './diff';
+
+const lines = (count: number, prefix = 'line') => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+describe('unifiedDiff', () => {
+  it('returns an empty string for identical inputs', () => {
+    expect(unifiedDiff('a\nb\nc\n', 'a\nb\nc\n')).toBe('');
+    expect(unifiedDiff('', '')).toBe('');
+  });
+
+  it('ignores line ending differences', () => {
+    expect(unifiedDiff('a\r\nb\r\n', 'a\nb\n')).toBe('');
+  });
+
+  it('uses the given labels', () => {
+    const diff = unifiedDiff('a', 'b', { fromLabel: 'DEV', toLabel: 'QAS' });
+    expect(diff.split('\n').slice(0, 2)).toEqual(['--- DEV', '+++ QAS']);
+  });
+
+  it('reports a pure insertion', () => {
+    expect(unifiedDiff('a\nb\nc', 'a\nb\nx\nc')).toBe([
+      '--- a',
+      '+++ b',
+      '@@ -1,3 +1,4 @@',
+      ' a',
+      ' b',
+      '+x',
+      ' c'
+    ].join('\n'));
+  });
+
+  it('reports a pure deletion', () => {
+    expect(unifiedDiff('a\nb\nx\nc', 'a\nb\nc')).toBe([
+      '--- a',
+      '+++ b',
+      '@@ -1,4 +1,3 @@',
+      ' a',
+      ' b',
+      '-x',
+      ' c'
+    ].join('\n'));
+  });
+
+  it('reports insertion into and deletion of a whole file', () => {
+    expect(unifiedDiff('', 'a\nb')).toBe(['--- a', '+++ b', '@@ -0,0 +1,2 @@', '+a', '+b'].join('\n'));
+    expect(unifiedDiff('a\nb', '')).toBe(['--- a', '+++ b', '@@ -1,2 +0,0 @@', '-a', '-b'].join('\n'));
+  });
+
+  it('reports a change at the start of the file', () => {
+    const oldLines = lines(10);
+    const newLines = ['first', ...oldLines.slice(1)];
+    expect(unifiedDiff(oldLines.join('\n'), newLines.join('\n'))).toBe([
+      '--- a',
+      '+++ b',
+      '@@ -1,4 +1,4 @@',
+      '-line 1',
+      '+first',
+      ' line 2',
+      ' line 3',
+      ' line 4'
+    ].join('\n'));
+  });
+
+  it('reports a change at the end of the file', () => {
+    const oldLines = lines(10);
+    const newLines = [...oldLines.slice(0, 9), 'last'];
+    expect(unifiedDiff(oldLines.join('\n'), newLines.join('\n'))).toBe([
+      '--- a',
+      '+++ b',
+      '@@ -7,4 +7,4 @@',
+      ' line 7',
+      ' line 8',
+      ' line 9',
+      '-line 10',
+      '+last'
+    ].join('\n'));
+  });
+
+  it('merges changes separated by at most two contexts into one hunk', () => {
+    const oldLines = lines(20);
+    const newLines = [...oldLines];
+    newLines[4] = 'changed 5';
+    newLines[10] = 'changed 11';   // 5 unchanged lines in between, less than 2 * 3
+    const diff = unifiedDiff(oldLines.join('\n'), newLines.join('\n'));
+    expect(diff.match(/^@@/gm)).toHaveLength(1);
+    expect(diff).toContain('@@ -2,13 +2,13 @@');
+  });
+
+  it('splits changes further apart into separate hunks', () => {
+    const oldLines = lines(30);
+    const newLines = [...oldLines];
+    newLines[4] = 'changed 5';
+    newLines[20] = 'changed 21';
+    const diff = unifiedDiff(oldLines.join('\n'), newLines.join('\n'));
+    expect(diff.match(/^@@.*@@$/gm)).toEqual(['@@ -2,7 +2,7 @@', '@@ -18,7 +18,7 @@']);
+  });
+
+  it('honours the context option', () => {
+    const oldLines = lines(10);
+    const newLines = [...oldLines];
+    newLines[4] = 'changed 5';
+    expect(unifiedDiff(oldLines.join('\n'), newLines.join('\n'), { context: 0 })).toBe([
+      '--- a',
+      '+++ b',
+      '@@ -5,1 +5,1 @@',
+      '-line 5',
+      '+changed 5'
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Line based unified diff (Myers algorithm) for comparing ABAP sources
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface DiffOptions {
+  fromLabel?: string;     // Header of the old side (--- line)
+  toLabel?: string;       // Header of the new side (+++ line)
+  context?: number;       // Unchanged lines shown around each change (default: 3)
+}
+
+interface Edit {
+  type: 'equal' | 'delete' | 'insert';
+  text: string;
+  oldIndex: number;       // 0-based position in the old lines
+  newIndex: number;       // 0-based position in the new lines
+}
+
+// Upper bound for the number of changed lines the diff searches for. Beyond it
+// the remaining difference is reported as a full replacement, which keeps memory
+// bounded for completely different sources.
+const MAX_EDIT_DISTANCE = 2000;
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+/**
+ * Creates a unified diff between two texts.
+ *
+ * @returns The diff, or an empty string if both texts are equal
+ */
+export function unifiedDiff(oldText: string, newText: string, options: DiffOptions = {}): string {
+  const { fromLabel = 'a', toLabel = 'b', context = 3 } = options;
+  const edits = diffLines(splitLines(oldText), splitLines(newText));
+  if (!edits.some(e => e.type !== 'equal')) {
+    return '';
+  }
+
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  let i = 0;
+  while (i < edits.length) {
+    // Skip to the next change
+    while (i < edits.length && edits[i].type === 'equal') {
+      i++;
+    }
+    if (i >= edits.length) {
+      break;
+    }
+
+    // Extend the hunk while changes are separated by less than two contexts
+    let lastChange = i;
+    for (let j = i; j < edits.length; j++) {
+      if (edits[j].type !== 'equal') {
+        lastChange = j;
+      } else if (j - lastChange > 2 * context) {
+        break;
+      }
+    }
+    const start = Math.max(0, i - context);
+    const end = Math.min(edits.length, lastChange + context + 1);
+    const hunk = edits.slice(start, end);
+
+    const oldCount = hunk.filter(e => e.type !== 'insert').length;
+    const newCount = hunk.filter(e => e.type !== 'delete').length;
+    const oldStart = oldCount === 0 ? hunk[0].oldIndex : hunk[0].oldIndex + 1;
+    const newStart = newCount === 0 ? hunk[0].newIndex : hunk[0].newIndex + 1;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const edit of hunk) {
+      const prefix = edit.type === 'equal' ? ' ' : edit.type === 'delete' ? '-' : '+';
+      output.push(`${prefix}${edit.text}`);
+    }
+    i = end;
+  }
+  return output.join('\n');
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Computes the shortest edit script with the Myers algorithm
+ */
+function diffLines(a: string[], b: string[]): Edit[] {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for diagonals -d-1..d+1 before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b);
+      }
+    }
+  }
+
+  // Too many differences: report everything as replaced
+  return [
+    ...a.map((text, i) => ({ type: 'delete' as const, text, oldIndex: i, newIndex: 0 })),
+    ...b.map((text, i) => ({ type: 'insert' as const, text, oldIndex: n, newIndex: i }))
+  ];
+}
+
+function backtrack(trace: Int32Array[], a: string[], b: string[]): Edit[] {
+  const edits: Edit[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      edits.push({ type: 'equal', text: a[x], oldIndex: x, newIndex: y });
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push({ type: 'insert', text: b[prevY], oldIndex: prevX, newIndex: prevY });
+      } else {
+        edits.push({ type: 'delete', text: a[prevX], oldIndex: prevX, newIndex: prevY });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return edits.reverse();
+}
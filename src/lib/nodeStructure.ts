@@ -0,0 +1,80 @@
+/**
+ * Repository tree (project explorer) contents via the ADT nodestructure endpoint
+ */
+
+import convert from 'xml-js';
+import { makeAdtRequest, getBaseUrl } from './utils';
+import { toArray } from './adtXml';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface RepositoryNode {
+  type: string;           // ADT type, e.g. PROG/P, FUGR/FF
+  name: string;
+  description?: string;
+  uri: string;
+}
+
+export interface PackageTreeContents {
+  packages: { packageName: string; nodes: RepositoryNode[] }[];
+  truncated: boolean;     // maxPackages was reached before all subpackages were visited
+}
+
+// ============================================================================
+// Node Structure
+// ============================================================================
+
+/**
+ * Lists the objects below a package, function group or other repository node.
+ * Category nodes without an object URI are left out.
+ *
+ * @param parentType ADT type of the parent, e.g. DEVC/K or FUGR/F
+ * @param parentName Name of the parent
+ */
+export async function fetchNodeStructure(parentType: string, parentName: string): Promise<RepositoryNode[]> {
+  const url = `${await getBaseUrl()}/sap/bc/adt/repository/nodestructure`;
+  const response = await makeAdtRequest(url, 'POST', 30000, undefined, {
+    parent_type: parentType,
+    parent_name: encodeURIComponent(parentName),
+    withShortDescriptions: true
+  });
+
+  const result = convert.xml2js(response.data, { compact: true }) as any;
+  return toArray(result["asx:abap"]?.["asx:values"]?.DATA?.TREE_CONTENT?.SEU_ADT_REPOSITORY_OBJ_NODE)
+    .filter(node => node.OBJECT_NAME?._text && node.OBJECT_URI?._text)
+    .map(node => ({
+      type: node.OBJECT_TYPE?._text,
+      name: node.OBJECT_NAME._text,
+      description: node.DESCRIPTION?._text,
+      uri: node.OBJECT_URI._text
+    }));
+}
+
+/**
+ * Lists the objects of a package and, breadth first, of its subpackages
+ *
+ * @param packageName Root package
+ * @param maxPackages Stop descending after this many packages
+ * @returns The contents of each visited package, the root package first, and
+ *          whether subpackages were left out because of maxPackages
+ */
+export async function walkPackageTree(packageName: string, maxPackages = 100): Promise<PackageTreeContents> {
+  const packages: PackageTreeContents['packages'] = [];
+  const pending = [packageName.toUpperCase()];
+  const seen = new Set(pending);
+  while (pending.length > 0 && packages.length < maxPackages) {
+    const current = pending.shift()!;
+    const nodes = await fetchNodeStructure('DEVC/K', current);
+    packages.push({ packageName: current, nodes });
+    for (const node of nodes) {
+      const name = node.name.toUpperCase();
+      if (node.type === 'DEVC/K' && !seen.has(name)) {
+        seen.add(name);
+        pending.push(name);
+      }
+    }
+  }
+  return { packages, truncated: pending.length > 0 };
+}
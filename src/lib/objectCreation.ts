@@ -0,0 +1,136 @@
+/**
+ * Shared steps for creating ABAP repository objects via ADT REST API:
+ * validate → metadata XML → source upload → activate
+ */
+
+import axios from 'axios';
+import { makeAdtRequest, getBaseUrl, getSapConfig } from './utils';
+import { escapeXml } from './adtXml';
+import { updateSource, updateDefinition } from './sourceUpdate';
+import { activateObject, formatActivationResult } from './activation';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface CreateObjectRequest {
+  uri: string;                 // ADT URI of the new object, e.g. /sap/bc/adt/oo/classes/zcl_foo
+  collectionUri: string;       // ADT URI the metadata is posted to, e.g. /sap/bc/adt/oo/classes
+  name: string;                // Object name in upper case
+  label: string;               // Human readable object kind, e.g. "Class"
+  contentType: string;         // Content type of the metadata XML
+  metadataXml: string;
+  source?: string;             // Main source uploaded after creation, if any
+  definitionXml?: string;      // Complete object XML written after creation, for objects without source
+  transportRequest?: string;
+  activate?: boolean;          // Default: true
+}
+
+// ABAP identifiers, optionally with namespace prefix (e.g. /ABC/CL_FOO)
+const NAME_PATTERN = /^(\/[A-Za-z0-9_]+\/)?[A-Za-z_][A-Za-z0-9_]*$/;
+
+// ============================================================================
+// Object Creation
+// ============================================================================
+
+/**
+ * Creates an object from its metadata, uploads its source (or complete
+ * definition) and activates it.
+ *
+ * @throws {Error} If a request fails or the activation reports errors
+ */
+export async function createObject(request: CreateObjectRequest): Promise<void> {
+  const params: Record<string, string> = {};
+  if (request.transportRequest) {
+    params['corrNr'] = request.transportRequest;
+  }
+
+  await makeAdtRequest(`${await getBaseUrl()}${request.collectionUri}`, 'POST', 30000, request.metadataXml, params, {
+    'Content-Type': request.contentType,
+    'Accept': `${request.contentType}, application/xml`
+  });
+
+  if (request.source !== undefined) {
+    await updateSource(request.uri, request.name, request.source, {
+      transportRequest: request.transportRequest
+    });
+  }
+
+  if (request.definitionXml !== undefined) {
+    await updateDefinition(request.uri, request.definitionXml, request.contentType, request.transportRequest);
+  }
+
+  if (request.activate === false) {
+    return;
+  }
+  const activation = await activateObject(request.uri, request.name);
+  if (!activation.activated) {
+    throw new Error(`${request.label} ${request.name} was created but activation failed:\n${formatActivationResult(activation)}`);
+  }
+}
+
+/**
+ * Checks the transport request rule shared by all create tools
+ *
+ * @returns An error message, or undefined if the combination is valid
+ */
+export function checkTransportRequest(packageName: string, transportRequest?: string): string | undefined {
+  if (packageName.toUpperCase() !== '$TMP' && !transportRequest) {
+    return 'Transport request is required for non-local packages (use $TMP for local objects)';
+  }
+  return undefined;
+}
+
+/**
+ * Checks an object, method or parameter name against the ABAP naming rules
+ */
+export function isValidName(name: string): boolean {
+  return NAME_PATTERN.test(name);
+}
+
+/**
+ * Returns the common adtcore attributes of a metadata root element
+ */
+export function coreAttributes(name: string, description: string, type: string): string {
+  // Get username of the target system for responsible field
+  const responsible = getSapConfig().username.toUpperCase();
+  return `adtcore:name="${escapeXml(name)}"
+    adtcore:type="${type}"
+    adtcore:description="${escapeXml(description)}"
+    adtcore:language="EN"
+    adtcore:masterLanguage="EN"
+    adtcore:responsible="${escapeXml(responsible)}"`;
+}
+
+/**
+ * Turns a failed creation into a readable message, mapping the usual HTTP
+ * status codes the way the DDIC create tools do
+ */
+export function getCreateErrorMessage(error: any, label: string, name: string): string {
+  if (!axios.isAxiosError(error)) {
+    return `Failed to create ${label.toLowerCase()}: ${error?.message || 'Unknown error'}`;
+  }
+
+  const status = error.response?.status;
+  const responseData = error.response?.data;
+  switch (status) {
+    case 401:
+      return 'Authentication failed. Check SAP credentials in .env file.';
+    case 403:
+      return 'Access forbidden. Check user authorizations or CSRF token.';
+    case 404:
+      return 'ADT endpoint not found. Ensure /sap/bc/adt service is activated in SICF.';
+    case 409:
+      return `${label} ${name} already exists.`;
+  }
+
+  // Extract error message from response if available
+  let errorDetail = '';
+  if (typeof responseData === 'string') {
+    const match = responseData.match(/<(?:\w+:)?(?:localizedMessage|message)[^>]*>([^<]+)<\//i);
+    errorDetail = match ? match[1] : responseData.substring(0, 500);
+  } else if (responseData) {
+    errorDetail = JSON.stringify(responseData).substring(0, 500);
+  }
+  return `HTTP ${status}: ${errorDetail || error.message}`;
+}
@@ -0,0 +1,126 @@
+import { parseSignature, getProgramOutline } from './objectOutline';
+import { makeAdtRequest } from './utils';
+
+jest.mock('./utils', () => ({
+  ...jest.requireActual('./utils'),
+  makeAdtRequest: jest.fn(),
+  getBaseUrl: jest.fn(async () => 'https://sap.example.com')
+}));
+
+const makeAdtRequestMock = makeAdtRequest as jest.MockedFunction<typeof makeAdtRequest>;
+
+describe('parseSignature', () => {
+  it('reads the parameters of all sections', () => {
+    const { parameters, exceptions } = parseSignature(`METHODS process
+      IMPORTING iv_id TYPE i
+      EXPORTING ev_text TYPE string
+      CHANGING  cs_order TYPE zorder
+      RETURNING VALUE(rv_ok) TYPE abap_bool.`);
+
+    expect(parameters).toEqual([
+      { name: 'iv_id', kind: 'importing', type: 'i', byValue: undefined },
+      { name: 'ev_text', kind: 'exporting', type: 'string', byValue: undefined },
+      { name: 'cs_order', kind: 'changing', type: 'zorder', byValue: undefined },
+      { name: 'rv_ok', kind: 'returning', type: 'abap_bool', byValue: true }
+    ]);
+    expect(exceptions).toEqual([]);
+  });
+
+  it('reads optional parameters, default values and pass by value or reference', () => {
+    const { parameters } = parseSignature(`METHODS read
+      IMPORTING
+        VALUE(iv_max) TYPE i DEFAULT 100
+        REFERENCE(io_log) TYPE REF TO zif_log OPTIONAL
+        iv_mode TYPE c DEFAULT 'A'
+      PREFERRED PARAMETER iv_max.`);
+
+    expect(parameters).toEqual([
+      { name: 'iv_max', kind: 'importing', type: 'i', byValue: true, default: '100', optional: true },
+      { name: 'io_log', kind: 'importing', type: 'REF TO zif_log', byValue: undefined, optional: true },
+      { name: 'iv_mode', kind: 'importing', type: 'c', byValue: undefined, default: "'A'", optional: true }
+    ]);
+  });
+
+  it('reads multi-word types', () => {
+    const { parameters } = parseSignature(`METHODS convert
+      IMPORTING it_lines TYPE STANDARD TABLE OF string
+                ir_range TYPE RANGE OF matnr
+                is_line  LIKE LINE OF gt_lines
+                it_any   TYPE INDEX TABLE
+                io_ref   TYPE REF TO data.`);
+
+    expect(parameters.map(p => [p.name, p.type])).toEqual([
+      ['it_lines', 'STANDARD TABLE OF string'],
+      ['ir_range', 'RANGE OF matnr'],
+      ['is_line', 'LINE OF gt_lines'],
+      ['it_any', 'INDEX TABLE'],
+      ['io_ref', 'REF TO data']
+    ]);
+  });
+
+  it('keeps table keys as part of the type', () => {
+    const { parameters } = parseSignature(`METHODS keys
+      IMPORTING it_empty   TYPE STANDARD TABLE OF string WITH EMPTY KEY
+                it_default TYPE STANDARD TABLE OF mara WITH DEFAULT KEY OPTIONAL
+                it_unique  TYPE SORTED TABLE OF mara WITH UNIQUE KEY matnr werks
+                it_hashed  TYPE HASHED TABLE OF mara WITH UNIQUE KEY matnr
+                             WITH NON-UNIQUE SORTED KEY by_type COMPONENTS mtart
+                VALUE(iv_last) TYPE i
+      RETURNING VALUE(rt_result) TYPE STANDARD TABLE OF mara WITH NON-UNIQUE KEY matnr.`);
+
+    expect(parameters.map(p => [p.name, p.type, p.optional])).toEqual([
+      ['it_empty', 'STANDARD TABLE OF string WITH EMPTY KEY', undefined],
+      ['it_default', 'STANDARD TABLE OF mara WITH DEFAULT KEY', true],
+      ['it_unique', 'SORTED TABLE OF mara WITH UNIQUE KEY matnr werks', undefined],
+      ['it_hashed', 'HASHED TABLE OF mara WITH UNIQUE KEY matnr WITH NON-UNIQUE SORTED KEY by_type COMPONENTS mtart', undefined],
+      ['iv_last', 'i', undefined],
+      ['rt_result', 'STANDARD TABLE OF mara WITH NON-UNIQUE KEY matnr', undefined]
+    ]);
+  });
+
+  it('reads class-based and classic exceptions', () => {
+    expect(parseSignature('METHODS save RAISING zcx_save RESUMABLE(zcx_lock) cx_static_check.').exceptions)
+      .toEqual(['zcx_save', 'zcx_lock', 'cx_static_check']);
+    expect(parseSignature('METHODS load IMPORTING iv_id TYPE i EXCEPTIONS not_found locked.').exceptions)
+      .toEqual(['not_found', 'locked']);
+  });
+
+  it('ignores comments and the escape character of parameter names', () => {
+    const { parameters } = parseSignature(`METHODS run
+      "! Runs the job
+      IMPORTING !iv_job TYPE string " the job name
+*     full line comment
+                !default TYPE i.`);
+
+    expect(parameters.map(p => [p.name, p.type])).toEqual([
+      ['iv_job', 'string'],
+      ['default', 'i']
+    ]);
+  });
+
+  it('reads event parameters', () => {
+    const { parameters } = parseSignature('EVENTS changed EXPORTING VALUE(ev_id) TYPE i.');
+    expect(parameters).toEqual([{ name: 'ev_id', kind: 'exporting', type: 'i', byValue: true }]);
+  });
+
+  it('returns nothing for methods without signature', () => {
+    expect(parseSignature('METHODS constructor.')).toEqual({ parameters: [], exceptions: [] });
+  });
+});
+
+describe('getProgramOutline', () => {
+  it('reads at most 50 includes but lists all of them', async () => {
+    const includes = Array.from({ length: 60 }, (_, i) => `ZREPORT_I${String(i).padStart(2, '0')}`);
+    makeAdtRequestMock.mockImplementation(async url => ({
+      data: String(url).includes('/programs/programs/') ? `REPORT zreport.\n${includes.map(name => `INCLUDE ${name}.`).join('\n')}` : ''
+    }) as any);
+
+    const outline = await getProgramOutline('zreport');
+
+    expect(outline.includes).toHaveLength(60);
+    expect(makeAdtRequestMock).toHaveBeenCalledTimes(51);
+    expect(makeAdtRequestMock).toHaveBeenLastCalledWith(
+      'https://sap.example.com/sap/bc/adt/programs/includes/zreport_i49/source/main', 'GET', 30000
+    );
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Outlines of classes, interfaces, programs and function groups: their
+ * components without the full source
+ */
+
+import { makeAdtRequest, getBaseUrl } from './utils';
+import { fetchObjectStructure } from './objectStructure';
+import { fetchNodeStructure, RepositoryNode } from './nodeStructure';
+import { MethodParameter } from './ooTemplates';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface ComponentOutline {
+  name: string;
+  visibility?: string;
+  level?: string;         // instance or static
+  description?: string;
+  line?: number;          // Line of the definition in the main source
+  parameters?: MethodParameter[];   // Methods and events
+  exceptions?: string[];
+  implementationLine?: number;
+}
+
+export interface ClassOutline {
+  name: string;
+  type: string;
+  types: ComponentOutline[];
+  attributes: ComponentOutline[];
+  methods: ComponentOutline[];
+  events: ComponentOutline[];
+  other: (ComponentOutline & { type: string })[];   // e.g. aliases, friends
+}
+
+export interface SourceElement {
+  name: string;
+  include: string;        // Program or include the element is defined in
+  line: number;
+}
+
+export interface ProgramOutline {
+  name: string;
+  type: 'PROG/P';
+  includes: string[];
+  events: SourceElement[];
+  forms: SourceElement[];
+  modules: SourceElement[];   // Dialog modules (MODULE ... OUTPUT / INPUT)
+  classes: SourceElement[];   // Local classes
+}
+
+export interface FunctionGroupOutline {
+  name: string;
+  type: 'FUGR/F';
+  functionModules: Omit<RepositoryNode, 'type'>[];
+  includes: Omit<RepositoryNode, 'type'>[];
+  other: RepositoryNode[];
+}
+
+// Includes read per program, so a deeply nested program cannot cause hundreds of requests
+const MAX_PROGRAM_INCLUDES = 50;
+
+const SIGNATURE_SECTIONS = ['IMPORTING', 'EXPORTING', 'CHANGING', 'RETURNING', 'RAISING', 'EXCEPTIONS'];
+
+const PROGRAM_EVENT_PATTERN = /^\s*(INITIALIZATION|START-OF-SELECTION|END-OF-SELECTION|LOAD-OF-PROGRAM|TOP-OF-PAGE(?:\s+DURING\s+LINE-SELECTION)?|END-OF-PAGE|AT\s+LINE-SELECTION|AT\s+USER-COMMAND|AT\s+SELECTION-SCREEN(?:\s+[^.]+)?)\s*\./i;
+
+// ============================================================================
+// Outlines
+// ============================================================================
+
+/**
+ * Outline of a class or interface from its object structure. Parameters are
+ * read from the definitions in the main source.
+ *
+ * @param objectUri ADT object URI without host (e.g. /sap/bc/adt/oo/classes/zcl_foo)
+ */
+export async function getClassOutline(objectUri: string): Promise<ClassOutline> {
+  const structure = await fetchObjectStructure(objectUri);
+  const sourceUri = `${objectUri}/source/main`;
+  const source = await readSource(sourceUri);
+  const lines = source.split(/\r?\n/);
+
+  const outline: ClassOutline = {
+    name: structure.name,
+    type: structure.type,
+    types: [],
+    attributes: [],
+    methods: [],
+    events: [],
+    other: []
+  };
+
+  for (const element of structure.children) {
+    const definition = element.definition?.uri === sourceUri
+      ? lines.slice(element.definition.startLine - 1, element.definition.endLine ?? element.definition.startLine).join('\n')
+      : '';
+    const component: ComponentOutline = {
+      name: element.name,
+      visibility: element.visibility,
+      level: element.level,
+      description: element.description,
+      line: element.definition?.startLine,
+      implementationLine: element.implementation?.startLine
+    };
+
+    // The statement tells the kind of component, independent of the ADT type ids
+    const keyword = definition.replace(/^\s*("[^\n]*\n\s*)*/, '').match(/^\s*([\w-]+)/)?.[1]?.toUpperCase() ?? '';
+    if (['METHODS', 'CLASS-METHODS', 'EVENTS', 'CLASS-EVENTS'].includes(keyword)) {
+      Object.assign(component, parseSignature(definition));
+      (keyword.endsWith('METHODS') ? outline.methods : outline.events).push(component);
+    } else if (['DATA', 'CLASS-DATA', 'CONSTANTS'].includes(keyword)) {
+      outline.attributes.push(component);
+    } else if (keyword === 'TYPES') {
+      outline.types.push(component);
+    } else {
+      outline.other.push({ ...component, type: element.type });
+    }
+  }
+  return outline;
+}
+
+/**
+ * Outline of a program from its source and the sources of its includes
+ *
+ * @param programName Name of the program
+ */
+export async function getProgramOutline(programName: string): Promise<ProgramOutline> {
+  const outline: ProgramOutline = {
+    name: programName.toUpperCase(),
+    type: 'PROG/P',
+    includes: [],
+    events: [],
+    forms: [],
+    modules: [],
+    classes: []
+  };
+
+  const pending = [{ name: outline.name, uri: `/sap/bc/adt/programs/programs/${encodeURIComponent(programName.toLowerCase())}/source/main` }];
+  const seen = new Set<string>();     // Includes queued for reading
+  while (pending.length > 0) {
+    const { name, uri } = pending.shift()!;
+    let source: string;
+    try {
+      source = await readSource(uri);
+    } catch (error) {
+      if (name === outline.name) {
+        throw error;
+      }
+      // Includes that cannot be read (e.g. generated or missing) are still listed
+      continue;
+    }
+
+    source.split(/\r?\n/).forEach((text, index) => {
+      if (/^\*/.test(text)) {
+        return;
+      }
+      const line = text.replace(/"[^\n]*$/, '');
+      const element = (elementName: string) => ({ name: elementName, include: name, line: index + 1 });
+
+      const include = line.match(/^\s*INCLUDE\s+([\w\/]+)\s*(?:IF\s+FOUND\s*)?\./i);
+      const form = line.match(/^\s*FORM\s+([\w\/-]+)/i);
+      const module = line.match(/^\s*MODULE\s+([\w\/-]+)\s+(OUTPUT|INPUT)\b/i);
+      const localClass = line.match(/^\s*CLASS\s+([\w\/]+)\s+DEFINITION\b/i);
+      const event = line.match(PROGRAM_EVENT_PATTERN);
+      if (include && !['TYPE', 'STRUCTURE'].includes(include[1].toUpperCase())) {
+        const includeName = include[1].toUpperCase();
+        outline.includes.push(includeName);
+        if (!seen.has(includeName) && seen.size < MAX_PROGRAM_INCLUDES) {
+          seen.add(includeName);
+          pending.push({ name: includeName, uri: `/sap/bc/adt/programs/includes/${encodeURIComponent(includeName.toLowerCase())}/source/main` });
+        }
+      } else if (form) {
+        outline.forms.push(element(form[1].toUpperCase()));
+      } else if (module) {
+        outline.modules.push(element(`${module[1].toUpperCase()} ${module[2].toUpperCase()}`));
+      } else if (localClass && !/\bDEFERRED\b|\bLOAD\b/i.test(line)) {
+        outline.classes.push(element(localClass[1].toUpperCase()));
+      } else if (event) {
+        outline.events.push(element(event[1].replace(/\s+/g, ' ').toUpperCase()));
+      }
+    });
+  }
+  return outline;
+}
+
+/**
+ * Outline of a function group: its function modules and includes
+ *
+ * @param functionGroup Name of the function group
+ */
+export async function getFunctionGroupOutline(functionGroup: string): Promise<FunctionGroupOutline> {
+  const nodes = await fetchNodeStructure('FUGR/F', functionGroup);
+  const withoutType = ({ type, ...node }: RepositoryNode) => node;
+  return {
+    name: functionGroup.toUpperCase(),
+    type: 'FUGR/F',
+    functionModules: nodes.filter(node => node.type === 'FUGR/FF').map(withoutType),
+    includes: nodes.filter(node => node.type === 'FUGR/I' || node.type === 'PROG/I').map(withoutType),
+    other: nodes.filter(node => !['FUGR/FF', 'FUGR/I', 'PROG/I'].includes(node.type))
+  };
+}
+
+/**
+ * Parses the parameters and exceptions of a METHODS or EVENTS statement
+ */
+export function parseSignature(statement: string): { parameters: MethodParameter[]; exceptions: string[] } {
+  const tokens = statement
+    .split(/\r?\n/)
+    .filter(line => !/^\*/.test(line))
+    .map(line => line.replace(/"[^\n]*$/, ''))
+    .join(' ')
+    .replace(/\.\s*$/, '')
+    .trim()
+    .split(/\s+/);
+
+  const parameters: MethodParameter[] = [];
+  const exceptions: string[] = [];
+  let section: string | undefined;
+  let current: MethodParameter | undefined;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const upper = token.toUpperCase();
+    if (SIGNATURE_SECTIONS.includes(upper)) {
+      section = upper;
+      current = undefined;
+    } else if (section === 'RAISING' || section === 'EXCEPTIONS') {
+      if (upper !== 'RESUMABLE') {
+        exceptions.push(token.replace(/^RESUMABLE\((.*)\)$/i, '$1'));
+      }
+    } else if (!section) {
+      continue;
+    } else if ((upper === 'TYPE' || upper === 'LIKE') && current) {
+      // TYPE REF TO x, TYPE LINE OF x, TYPE RANGE OF x, TYPE STANDARD TABLE OF x ...
+      const typeTokens: string[] = [];
+      while (i + 1 < tokens.length) {
+        const next = tokens[++i];
+        typeTokens.push(next);
+        // Generic table types end with TABLE, e.g. TYPE INDEX TABLE
+        if (/^TABLE$/i.test(next) && !/^OF$/i.test(tokens[i + 1] ?? '')) {
+          break;
+        }
+        if (!/^(REF|TO|LINE|RANGE|OF|STANDARD|SORTED|HASHED|ANY|INDEX|TABLE)$/i.test(next)) {
+          break;
+        }
+      }
+      // Table keys: WITH EMPTY KEY, WITH DEFAULT KEY, WITH [NON-]UNIQUE [SORTED] KEY [name COMPONENTS] c1 c2 ...
+      while (/^WITH$/i.test(tokens[i + 1] ?? '')) {
+        typeTokens.push(tokens[++i]);
+        if (/^DEFAULT$/i.test(tokens[i + 1] ?? '')) {
+          typeTokens.push(tokens[++i]);
+        }
+        while (i + 1 < tokens.length && !endsTableKey(tokens, i + 1)) {
+          typeTokens.push(tokens[++i]);
+        }
+      }
+      current.type = typeTokens.join(' ');
+    } else if (upper === 'OPTIONAL' && current) {
+      current.optional = true;
+    } else if (upper === 'DEFAULT' && current) {
+      current.default = tokens[++i];
+      current.optional = true;
+    } else if (upper === 'PREFERRED') {
+      i += 2;   // PREFERRED PARAMETER name
+    } else {
+      const byValue = token.match(/^(VALUE|REFERENCE)\((.+)\)$/i);
+      current = {
+        name: (byValue ? byValue[2] : token).replace(/^!/, ''),   // !name escapes names that are keywords
+        kind: section.toLowerCase() as MethodParameter['kind'],
+        type: '',
+        byValue: byValue?.[1].toUpperCase() === 'VALUE' || undefined
+      };
+      parameters.push(current);
+    }
+  }
+  return { parameters, exceptions };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Whether the token at index no longer belongs to a table key: the next
+ * key, section or parameter addition, or the name of the next parameter
+ */
+function endsTableKey(tokens: string[], index: number): boolean {
+  const upper = tokens[index].toUpperCase();
+  return upper === 'WITH'
+    || SIGNATURE_SECTIONS.includes(upper)
+    || ['OPTIONAL', 'DEFAULT', 'PREFERRED'].includes(upper)
+    || /^(VALUE|REFERENCE)\(/i.test(upper)
+    || /^(TYPE|LIKE)$/i.test(tokens[index + 1] ?? '');
+}
+
+async function readSource(uri: string): Promise<string> {
+  const response = await makeAdtRequest(`${await getBaseUrl()}${uri}`, 'GET', 30000);
+  return String(response.data);
+}
@@ -0,0 +1,94 @@
+/**
+ * Object structure (outline) of classes, interfaces and programs via the
+ * ADT objectstructure endpoint
+ */
+
+import { makeAdtRequest, getBaseUrl } from './utils';
+import { toArray } from './adtXml';
+import { normalizeXml } from './responseNormalizer';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface SourceRange {
+  uri: string;            // Source the range refers to, without fragment
+  startLine: number;
+  endLine?: number;
+}
+
+export interface StructureElement {
+  name: string;
+  type: string;           // ADT type, e.g. CLAS/OM for methods, CLAS/OA for attributes
+  visibility?: string;    // public, protected, private
+  level?: string;         // instance or static
+  description?: string;
+  definition?: SourceRange;
+  implementation?: SourceRange;
+  children: StructureElement[];
+}
+
+const RELATION_PREFIX = 'http://www.sap.com/adt/relations/source/';
+
+// ============================================================================
+// Object Structure
+// ============================================================================
+
+/**
+ * Reads the structure of an object: its components with the source ranges
+ * of their definition and implementation
+ *
+ * @param objectUri ADT object URI without host (e.g. /sap/bc/adt/oo/classes/zcl_foo)
+ */
+export async function fetchObjectStructure(objectUri: string): Promise<StructureElement> {
+  const url = `${await getBaseUrl()}${objectUri}/objectstructure`;
+  const response = await makeAdtRequest(url, 'GET', 30000, undefined, {
+    'version': 'active',
+    'withShortDescriptions': 'true'
+  }, {
+    'Accept': 'application/vnd.sap.adt.objectstructure.v2+xml, application/vnd.sap.adt.objectstructure+xml'
+  });
+  return toStructureElement(normalizeXml(response.data));
+}
+
+/**
+ * Finds a component by name and optionally type among the direct children
+ */
+export function findComponent(structure: StructureElement, name: string, type?: string): StructureElement | undefined {
+  return structure.children.find(child =>
+    child.name?.toUpperCase() === name.toUpperCase() && (!type || child.type === type));
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function toStructureElement(node: any): StructureElement {
+  const links = toArray(node.link);
+  const range = (relation: string) => parseRange(links.find(link => link.rel === RELATION_PREFIX + relation)?.href);
+  return {
+    name: node.name,
+    type: node.type,
+    visibility: node.visibility || undefined,
+    level: node.level || undefined,
+    description: node.description || undefined,
+    definition: range('definitionBlock'),
+    implementation: range('implementationBlock'),
+    children: toArray(node.objectStructureElement).map(toStructureElement)
+  };
+}
+
+/**
+ * Parses a link like .../source/main#start=12,2;end=15,10
+ */
+function parseRange(href?: string): SourceRange | undefined {
+  const match = String(href || '').match(/^([^#]*)#start=(\d+),\d+(?:;end=(\d+),\d+)?/);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    uri: match[1],
+    startLine: parseInt(match[2], 10),
+    endLine: match[3] ? parseInt(match[3], 10) : undefined
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Mapping between ABAP object types and their ADT object URIs
+ */
+
+// Object types are accepted both as ADT type ids (e.g. CLAS/OC) and as the
+// short names used throughout the tool descriptions (e.g. CLAS, INCL, STRU).
+const OBJECT_TYPE_PATHS: Record<string, string> = {
+  'PROG': '/sap/bc/adt/programs/programs',
+  'PROG/P': '/sap/bc/adt/programs/programs',
+  'INCL': '/sap/bc/adt/programs/includes',
+  'PROG/I': '/sap/bc/adt/programs/includes',
+  'CLAS': '/sap/bc/adt/oo/classes',
+  'CLAS/OC': '/sap/bc/adt/oo/classes',
+  'INTF': '/sap/bc/adt/oo/interfaces',
+  'INTF/OI': '/sap/bc/adt/oo/interfaces',
+  'FUGR': '/sap/bc/adt/functions/groups',
+  'FUGR/F': '/sap/bc/adt/functions/groups',
+  'TABL': '/sap/bc/adt/ddic/tables',
+  'TABL/DT': '/sap/bc/adt/ddic/tables',
+  'STRU': '/sap/bc/adt/ddic/structures',
+  'TABL/DS': '/sap/bc/adt/ddic/structures',
+  'DTEL': '/sap/bc/adt/ddic/dataelements',
+  'DTEL/DE': '/sap/bc/adt/ddic/dataelements',
+  'DOMA': '/sap/bc/adt/ddic/domains',
+  'DOMA/DD': '/sap/bc/adt/ddic/domains',
+  'DDLS': '/sap/bc/adt/ddic/ddl/sources',
+  'DDLS/DF': '/sap/bc/adt/ddic/ddl/sources',
+  'DDLX': '/sap/bc/adt/ddic/ddlx/sources',
+  'DDLX/EX': '/sap/bc/adt/ddic/ddlx/sources',
+  'DCLS': '/sap/bc/adt/acm/dcl/sources',
+  'DCLS/DL': '/sap/bc/adt/acm/dcl/sources',
+  'DEVC': '/sap/bc/adt/packages',
+  'DEVC/K': '/sap/bc/adt/packages'
+};
+
+// Function modules live below their function group
+const FUNCTION_MODULE_TYPES = ['FUNC', 'FUGR/FF'];
+
+// ADT type ids of the short names
+const ADT_TYPES: Record<string, string> = {
+  'PROG': 'PROG/P',
+  'INCL': 'PROG/I',
+  'CLAS': 'CLAS/OC',
+  'INTF': 'INTF/OI',
+  'FUGR': 'FUGR/F',
+  'FUNC': 'FUGR/FF',
+  'TABL': 'TABL/DT',
+  'STRU': 'TABL/DS',
+  'DTEL': 'DTEL/DE',
+  'DOMA': 'DOMA/DD',
+  'DDLS': 'DDLS/DF',
+  'DDLX': 'DDLX/EX',
+  'DCLS': 'DCLS/DL',
+  'DEVC': 'DEVC/K'
+};
+
+/**
+ * Returns the list of object types accepted by getObjectUri
+ */
+export function getSupportedObjectTypes(): string[] {
+  return [...Object.keys(OBJECT_TYPE_PATHS), ...FUNCTION_MODULE_TYPES];
+}
+
+/**
+ * Builds the ADT object URI (without host) for an object type and name.
+ *
+ * @param type Object type, e.g. CLAS, PROG/I or FUNC
+ * @param name Object name
+ * @param functionGroup Function group, required for function modules
+ * @throws {Error} If the type is not supported or a function group is missing
+ */
+export function getObjectUri(type: string, name: string, functionGroup?: string): string {
+  const typeUpper = type.toUpperCase();
+  const encodedName = encodeURIComponent(name.toLowerCase());
+
+  if (FUNCTION_MODULE_TYPES.includes(typeUpper)) {
+    if (!functionGroup) {
+      throw new Error(`Function group is required for function module ${name}`);
+    }
+    return `/sap/bc/adt/functions/groups/${encodeURIComponent(functionGroup.toLowerCase())}/fmodules/${encodedName}`;
+  }
+
+  const path = OBJECT_TYPE_PATHS[typeUpper];
+  if (!path) {
+    throw new Error(`Unsupported object type ${type}. Supported types: ${getSupportedObjectTypes().join(', ')}`);
+  }
+  return `${path}/${encodedName}`;
+}
+
+/**
+ * Returns the ADT type id for a short name (e.g. CLAS -> CLAS/OC); ADT type
+ * ids and unknown types are returned in upper case as they are
+ */
+export function toAdtType(type: string): string {
+  const typeUpper = type.toUpperCase();
+  return ADT_TYPES[typeUpper] ?? typeUpper;
+}
@@ -0,0 +1,132 @@
+/**
+ * Source templates for ABAP Objects: method signatures shared by class and
+ * interface scaffolding
+ */
+
+import { isValidName } from './objectCreation';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface MethodParameter {
+  name: string;
+  kind?: 'importing' | 'exporting' | 'changing' | 'returning';   // Default: importing
+  type: string;           // e.g. 'string', 'REF TO zcl_foo', 'STANDARD TABLE OF mara WITH EMPTY KEY'
+  optional?: boolean;
+  default?: string;       // Default value, implies optional
+  byValue?: boolean;      // VALUE(...) instead of pass by reference (always for returning)
+}
+
+export interface MethodDefinition {
+  name: string;
+  visibility?: 'public' | 'protected' | 'private';   // Classes only, default: public
+  isStatic?: boolean;     // CLASS-METHODS
+  isAbstract?: boolean;   // Classes only, no implementation is generated
+  parameters?: MethodParameter[];
+  exceptions?: string[];  // Class-based exceptions for RAISING
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validates method definitions
+ *
+ * @returns An error message, or undefined if all methods are valid
+ */
+export function validateMethods(methods: MethodDefinition[], isInterface: boolean): string | undefined {
+  const names = new Set<string>();
+  for (const method of methods) {
+    if (!method?.name || !isValidName(method.name)) {
+      return `Invalid method name: ${method?.name}`;
+    }
+    if (names.has(method.name.toUpperCase())) {
+      return `Method ${method.name} is defined more than once`;
+    }
+    names.add(method.name.toUpperCase());
+
+    if (isInterface && (method.visibility || method.isAbstract)) {
+      return `Method ${method.name}: visibility and isAbstract are not allowed in interfaces`;
+    }
+    if (method.visibility && !['public', 'protected', 'private'].includes(method.visibility)) {
+      return `Method ${method.name}: visibility must be public, protected or private`;
+    }
+    if (method.isStatic && method.isAbstract) {
+      return `Method ${method.name}: static methods cannot be abstract`;
+    }
+
+    const parameters = method.parameters || [];
+    for (const parameter of parameters) {
+      if (!parameter?.name || !isValidName(parameter.name) || !parameter.type) {
+        return `Method ${method.name}: each parameter must have a valid name and type`;
+      }
+      if (parameter.kind && !['importing', 'exporting', 'changing', 'returning'].includes(parameter.kind)) {
+        return `Method ${method.name}: parameter kind must be importing, exporting, changing or returning`;
+      }
+    }
+    if (parameters.filter(p => p.kind === 'returning').length > 1) {
+      return `Method ${method.name}: only one returning parameter is allowed`;
+    }
+    for (const exception of method.exceptions || []) {
+      if (!isValidName(exception)) {
+        return `Method ${method.name}: invalid exception class ${exception}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Source Generation
+// ============================================================================
+
+/**
+ * Generates the METHODS / CLASS-METHODS declaration of a method
+ *
+ * @param indent Indentation of the statement, parameters are indented further
+ */
+export function generateMethodDeclaration(method: MethodDefinition, indent: string): string {
+  const lines: string[] = [];
+  const keyword = method.isStatic ? 'CLASS-METHODS' : 'METHODS';
+  lines.push(`${indent}${keyword} ${method.name.toLowerCase()}${method.isAbstract ? ' ABSTRACT' : ''}`);
+
+  const parameters = method.parameters || [];
+  for (const kind of ['importing', 'exporting', 'changing', 'returning'] as const) {
+    const ofKind = parameters.filter(p => (p.kind || 'importing') === kind);
+    if (ofKind.length === 0) {
+      continue;
+    }
+    lines.push(`${indent}  ${kind.toUpperCase()}`);
+    for (const parameter of ofKind) {
+      lines.push(`${indent}    ${formatParameter(parameter)}`);
+    }
+  }
+
+  const exceptions = method.exceptions || [];
+  if (exceptions.length > 0) {
+    lines.push(`${indent}  RAISING`);
+    for (const exception of exceptions) {
+      lines.push(`${indent}    ${exception.toLowerCase()}`);
+    }
+  }
+
+  return `${lines.join('\n')} .`;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function formatParameter(parameter: MethodParameter): string {
+  const name = parameter.name.toLowerCase();
+  const byValue = parameter.kind === 'returning' || parameter.byValue;
+  let declaration = `${byValue ? `VALUE(${name})` : `!${name}`} TYPE ${parameter.type}`;
+  if (parameter.default !== undefined) {
+    declaration += ` DEFAULT ${parameter.default}`;
+  } else if (parameter.optional) {
+    declaration += ' OPTIONAL';
+  }
+  return declaration;
+}
@@ -0,0 +1,110 @@
+/**
+ * Package metadata and the contents of package trees
+ */
+
+import { makeAdtRequest, getBaseUrl } from './utils';
+import { normalizeXml } from './responseNormalizer';
+import { walkPackageTree, RepositoryNode } from './nodeStructure';
+import { mapConcurrent } from './concurrency';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface PackageInfo {
+  name: string;
+  description?: string;
+  responsible?: string;
+  packageType?: string;         // development, structure or main
+  parent?: string;              // Super package
+  softwareComponent?: string;
+  transportLayer?: string;
+  applicationComponent?: string;
+}
+
+export type PackageObject = Omit<RepositoryNode, 'type'>;
+
+export interface PackageContents extends PackageInfo {
+  subpackages: string[];
+  objects: Record<string, PackageObject[]>;   // Grouped by ADT type, e.g. CLAS/OC
+}
+
+export interface PackageTree {
+  root: string;
+  packages: PackageContents[];      // Breadth first, the root package first
+  objectCounts: Record<string, number>;
+  truncated: boolean;               // Not all subpackages were visited
+}
+
+// Package metadata requests running at the same time
+const METADATA_CONCURRENCY = 4;
+
+// ============================================================================
+// Packages
+// ============================================================================
+
+/**
+ * Reads the metadata of a package
+ *
+ * @param packageName Name of the package
+ */
+export async function fetchPackageInfo(packageName: string): Promise<PackageInfo> {
+  const url = `${await getBaseUrl()}/sap/bc/adt/packages/${encodeURIComponent(packageName.toLowerCase())}`;
+  const response = await makeAdtRequest(url, 'GET', 30000);
+  return shapePackage(normalizeXml(response.data));
+}
+
+/**
+ * Projects a normalized package document (see responseNormalizer) onto PackageInfo
+ */
+export function shapePackage(json: any): PackageInfo {
+  return {
+    name: json.name,
+    description: json.description || undefined,
+    responsible: json.responsible || undefined,
+    packageType: json.attributes?.packageType || undefined,
+    parent: json.superPackage?.name || undefined,
+    softwareComponent: json.transport?.softwareComponent?.name || undefined,
+    transportLayer: json.transport?.transportLayer?.name || undefined,
+    applicationComponent: json.applicationComponent?.name || undefined
+  };
+}
+
+/**
+ * Reads a package with all its subpackages: metadata and objects of each
+ * package, the objects grouped by type
+ *
+ * @param packageName Root package
+ * @param options.types ADT types of the objects to list, default: all
+ * @param options.maxPackages Stop descending after this many packages
+ */
+export async function fetchPackageTree(
+  packageName: string,
+  options: { types?: string[]; maxPackages?: number } = {}
+): Promise<PackageTree> {
+  const visited = await walkPackageTree(packageName, options.maxPackages);
+
+  const tree: PackageTree = {
+    root: packageName.toUpperCase(),
+    packages: [],
+    objectCounts: {},
+    truncated: visited.truncated
+  };
+  tree.packages = await mapConcurrent(visited.packages, METADATA_CONCURRENCY, async ({ packageName: name, nodes }) => {
+    const subpackages = nodes.filter(node => node.type === 'DEVC/K').map(node => node.name.toUpperCase());
+
+    const objects: Record<string, PackageObject[]> = {};
+    for (const { type, ...object } of nodes) {
+      if (type === 'DEVC/K' || (options.types && !options.types.includes(type))) {
+        continue;
+      }
+      if (!objects[type]) {
+        objects[type] = [];
+      }
+      objects[type].push(object);
+      tree.objectCounts[type] = (tree.objectCounts[type] ?? 0) + 1;
+    }
+    return { ...await fetchPackageInfo(name), subpackages, objects };
+  });
+  return tree;
+}
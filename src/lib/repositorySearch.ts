@@ -0,0 +1,178 @@
+/**
+ * Repository search with filters: quick search by name, narrowed down by
+ * object type, package tree, responsible user and creation/change dates
+ */
+
+import { makeAdtRequest, getBaseUrl } from './utils';
+import { normalizeXml } from './responseNormalizer';
+import { toArray } from './adtXml';
+import { walkPackageTree } from './nodeStructure';
+import { mapConcurrent } from './concurrency';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface RepositoryObject {
+  name: string;
+  type: string;           // ADT type, e.g. CLAS/OC
+  packageName?: string;
+  description?: string;
+  uri: string;
+  responsible?: string;   // Set when filtering by user or date
+  createdAt?: string;
+  changedAt?: string;
+  changedBy?: string;
+}
+
+export interface DateRange {
+  from?: string;          // YYYY-MM-DD, inclusive
+  to?: string;
+}
+
+export interface RepositorySearchOptions {
+  query: string;                  // Name pattern, * as wildcard
+  maxResults: number;
+  types?: string[];               // ADT types
+  packageName?: string;
+  includeSubpackages?: boolean;
+  responsible?: string;
+  created?: DateRange;
+  changed?: DateRange;
+}
+
+export interface RepositorySearchResult {
+  objects: RepositoryObject[];
+  packagesTruncated: boolean;     // Not all subpackages of the package were visited
+  candidatesTruncated: boolean;   // More than MAX_DETAIL_CANDIDATES objects needed a user or date check
+}
+
+// Objects whose metadata is read for the user and date filters
+export const MAX_DETAIL_CANDIDATES = 500;
+
+const DETAIL_CONCURRENCY = 4;
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Searches repository objects. With a package the objects are listed from the
+ * package (tree) and matched against the query; otherwise the ADT quick search
+ * is used, once per object type. User and date filters read the metadata of
+ * each candidate, at most MAX_DETAIL_CANDIDATES of them.
+ */
+export async function searchRepository(options: RepositorySearchOptions): Promise<RepositorySearchResult> {
+  const needsDetails = Boolean(options.responsible || options.created || options.changed);
+  const candidateLimit = needsDetails ? MAX_DETAIL_CANDIDATES : options.maxResults;
+
+  // One candidate more than the limit tells whether candidates were left out
+  let { objects: candidates, packagesTruncated } = options.packageName
+    ? await listPackageObjects(options.packageName, options.includeSubpackages !== false, options.query)
+    : { objects: await quickSearch(options.query, options.types, candidateLimit + 1), packagesTruncated: false };
+  if (options.types) {
+    candidates = candidates.filter(object => options.types!.includes(object.type));
+  }
+  const candidatesTruncated = needsDetails && candidates.length > candidateLimit;
+  candidates = candidates.slice(0, candidateLimit);
+  if (!needsDetails) {
+    return { objects: candidates.slice(0, options.maxResults), packagesTruncated, candidatesTruncated };
+  }
+
+  const detailed = await mapConcurrent(candidates, DETAIL_CONCURRENCY, async object => {
+    try {
+      return { ...object, ...await fetchObjectDetails(object.uri) };
+    } catch {
+      // Objects without readable metadata cannot match user or date filters
+      return undefined;
+    }
+  });
+  return {
+    objects: detailed
+      .filter((object): object is RepositoryObject => object !== undefined && matchesDetails(object, options))
+      .slice(0, options.maxResults),
+    packagesTruncated,
+    candidatesTruncated
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+async function quickSearch(query: string, types: string[] | undefined, maxResults: number): Promise<RepositoryObject[]> {
+  const url = `${await getBaseUrl()}/sap/bc/adt/repository/informationsystem/search`;
+  const results = new Map<string, RepositoryObject>();
+  for (const type of types ?? [undefined]) {
+    const response = await makeAdtRequest(url, 'GET', 30000, undefined, {
+      operation: 'quickSearch',
+      query,
+      maxResults,
+      ...(type ? { objectType: type } : {})
+    });
+    for (const reference of toArray(normalizeXml(response.data).objectReference)) {
+      results.set(reference.uri, {
+        name: reference.name,
+        type: reference.type,
+        packageName: reference.packageName || undefined,
+        description: reference.description || undefined,
+        uri: reference.uri
+      });
+    }
+  }
+  return [...results.values()];
+}
+
+async function listPackageObjects(packageName: string, includeSubpackages: boolean, query: string): Promise<Omit<RepositorySearchResult, 'candidatesTruncated'>> {
+  const { packages, truncated } = await walkPackageTree(packageName, includeSubpackages ? undefined : 1);
+  const pattern = wildcardToRegExp(query);
+  return {
+    objects: packages.flatMap(p => p.nodes
+      .filter(node => node.type !== 'DEVC/K' && pattern.test(node.name))
+      .map(node => ({
+        name: node.name,
+        type: node.type,
+        packageName: p.packageName,
+        description: node.description,
+        uri: node.uri
+      }))),
+    // Stopping after the package itself is intended without subpackages
+    packagesTruncated: includeSubpackages && truncated
+  };
+}
+
+// Quick search semantics: * matches any characters, the match is case-insensitive
+function wildcardToRegExp(query: string): RegExp {
+  const source = query.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+async function fetchObjectDetails(objectUri: string): Promise<Pick<RepositoryObject, 'responsible' | 'createdAt' | 'changedAt' | 'changedBy'>> {
+  const response = await makeAdtRequest(`${await getBaseUrl()}${objectUri}`, 'GET', 30000);
+  const json = normalizeXml(response.data);
+  return {
+    responsible: json.responsible || undefined,
+    createdAt: json.createdAt || undefined,
+    changedAt: json.changedAt || undefined,
+    changedBy: json.changedBy || undefined
+  };
+}
+
+function matchesDetails(object: RepositoryObject, options: RepositorySearchOptions): boolean {
+  if (options.responsible && object.responsible?.toUpperCase() !== options.responsible.toUpperCase()) {
+    return false;
+  }
+  return inRange(object.createdAt, options.created) && inRange(object.changedAt, options.changed);
+}
+
+// Timestamps are ISO 8601, so the date part compares as a string
+function inRange(timestamp: string | undefined, range: DateRange | undefined): boolean {
+  if (!range) {
+    return true;
+  }
+  if (!timestamp) {
+    return false;
+  }
+  const date = timestamp.substring(0, 10);
+  return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+}
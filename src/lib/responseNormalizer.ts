@@ -0,0 +1,107 @@
+/**
+ * Converts ADT XML responses into compact JSON for the model
+ *
+ * The generic conversion (normalizeXml) follows these rules:
+ * - Namespace prefixes are dropped from element and attribute names
+ *   (adtcore:name becomes name), namespace declarations are removed.
+ * - Attributes and child elements become properties of the same object.
+ * - An element with only text becomes that text; text next to attributes or
+ *   children is kept as the property "value".
+ * - Elements that occur more than once become arrays.
+ * - The root element and the asx:abap / asx:values envelope are unwrapped.
+ */
+
+import convert from 'xml-js';
+import { AxiosResponse, return_response } from './utils';
+
+export type ResponseFormat = 'json' | 'raw';
+
+/**
+ * Converts an ADT XML document into compact JSON following the rules above
+ */
+export function normalizeXml(xml: string): any {
+  const document = convert.xml2js(xml, { compact: true }) as any;
+  const rootName = Object.keys(document).find(key => key !== '_declaration' && key !== '_instruction');
+  if (!rootName) {
+    return {};
+  }
+  let result = normalizeNode(document[rootName]);
+  // ABAP serialized data: <asx:abap><asx:values>...</asx:values></asx:abap>
+  if (stripPrefix(rootName) === 'abap' && result?.values !== undefined) {
+    result = result.values;
+  }
+  return result;
+}
+
+/**
+ * Returns an ADT response in the requested format.
+ * XML is normalized to JSON and optionally reshaped by the tool; with
+ * format "raw", or if the response is no XML, the body is passed through.
+ *
+ * @param response ADT response
+ * @param format Requested format, "json" if omitted
+ * @param shape Tool specific projection of the normalized JSON
+ */
+export function return_normalized(response: AxiosResponse, format?: ResponseFormat, shape?: (json: any) => any) {
+  if (format === 'raw' || !isXml(response)) {
+    return return_response(response);
+  }
+  const json = normalizeXml(response.data);
+  return {
+    isError: false,
+    content: [{
+      type: 'text',
+      text: JSON.stringify(shape ? shape(json) : json)
+    }]
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function isXml(response: AxiosResponse): boolean {
+  if (typeof response.data !== 'string') {
+    return false;
+  }
+  const contentType = String(response.headers?.['content-type'] || '');
+  return contentType.includes('xml') || response.data.trimStart().startsWith('<');
+}
+
+function stripPrefix(name: string): string {
+  const index = name.indexOf(':');
+  return index >= 0 ? name.substring(index + 1) : name;
+}
+
+function normalizeNode(node: any): any {
+  if (Array.isArray(node)) {
+    return node.map(normalizeNode);
+  }
+  if (node === null || typeof node !== 'object') {
+    return node;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [name, value] of Object.entries(node._attributes || {})) {
+    if (name === 'xmlns' || name.startsWith('xmlns:')) {
+      continue;
+    }
+    result[stripPrefix(name)] = value;
+  }
+  for (const [name, value] of Object.entries(node)) {
+    if (name.startsWith('_')) {
+      continue;
+    }
+    result[stripPrefix(name)] = normalizeNode(value);
+  }
+
+  const text = node._text ?? node._cdata;
+  const textValue = Array.isArray(text) ? text.join('') : text;
+  if (Object.keys(result).length === 0) {
+    return textValue ?? '';
+  }
+  if (textValue !== undefined) {
+    result.value = textValue;
+  }
+  return result;
+}
@@ -0,0 +1,89 @@
+/**
+ * Reading /source/main of source-based objects, including older revisions
+ */
+
+import convert from 'xml-js';
+import { makeAdtRequest, getBaseUrl } from './utils';
+import { toArray } from './adtXml';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface Revision {
+  id: string;             // Version number as listed by ADT, e.g. 00003
+  uri: string;            // ADT URI of the revision content
+  date?: string;
+  author?: string;
+  transport?: string;
+  title?: string;
+}
+
+// ============================================================================
+// Source Access
+// ============================================================================
+
+/**
+ * Reads the active or inactive main source of an object
+ *
+ * @param objectUri ADT object URI without host (e.g. /sap/bc/adt/oo/classes/zcl_foo)
+ */
+export async function fetchSource(objectUri: string, version: 'active' | 'inactive' = 'active'): Promise<string> {
+  const url = `${await getBaseUrl()}${objectUri}/source/main`;
+  const response = await makeAdtRequest(url, 'GET', 30000, undefined, { version });
+  return String(response.data);
+}
+
+/**
+ * Lists the revisions of an object's main source, newest first
+ */
+export async function listRevisions(objectUri: string): Promise<Revision[]> {
+  // Classes keep their revisions at the main include, everything else at the main source
+  const versionsPath = objectUri.startsWith('/sap/bc/adt/oo/classes/') ? 'includes/main/versions' : 'source/main/versions';
+  const url = `${await getBaseUrl()}${objectUri}/${versionsPath}`;
+  const response = await makeAdtRequest(url, 'GET', 30000, undefined, undefined, {
+    'Accept': 'application/atom+xml;type=feed'
+  });
+
+  const xml = convert.xml2js(response.data, { compact: true }) as any;
+  return toArray(xml['atom:feed']?.['atom:entry']).map(entry => {
+    const transportLink = toArray(entry['atom:link'])
+      .find(link => String(link._attributes?.rel || '').includes('transport'));
+    return {
+      id: entry['atom:id']?._text,
+      uri: entry['atom:content']?._attributes?.src,
+      date: entry['atom:updated']?._text,
+      author: entry['atom:author']?.['atom:name']?._text,
+      transport: transportLink?._attributes?.['adtcore:name'],
+      title: entry['atom:title']?._text
+    };
+  });
+}
+
+/**
+ * Reads a specific version of an object's main source.
+ *
+ * @param version 'active', 'inactive', a revision index from listRevisions
+ *                (0 = newest), a revision id (e.g. 00003) or a revision content URI
+ */
+export async function fetchSourceVersion(objectUri: string, version: string = 'active'): Promise<string> {
+  if (version === 'active' || version === 'inactive') {
+    return fetchSource(objectUri, version);
+  }
+
+  let revisionUri = version;
+  if (!version.startsWith('/sap/bc/adt/')) {
+    const revisions = await listRevisions(objectUri);
+    // Revision ids are zero padded (00003), indexes are not
+    const revision = /^\d{5}$/.test(version)
+      ? revisions.find(r => r.id === version)
+      : /^\d+$/.test(version) ? revisions[parseInt(version, 10)] : undefined;
+    if (!revision?.uri) {
+      throw new Error(`Version ${version} not found for ${objectUri} (${revisions.length} revisions available)`);
+    }
+    revisionUri = revision.uri;
+  }
+
+  const response = await makeAdtRequest(`${await getBaseUrl()}${revisionUri}`, 'GET', 30000);
+  return String(response.data);
+}
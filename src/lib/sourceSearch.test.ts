@@ -0,0 +1,97 @@
+import { AxiosError } from 'axios';
+import { searchSources, searchWithCodeSearch, SearchObject } from './sourceSearch';
+import { makeAdtRequest } from './utils';
+
+jest.mock('./utils', () => ({
+  ...jest.requireActual('./utils'),
+  makeAdtRequest: jest.fn(),
+  getBaseUrl: jest.fn(async () => 'https://sap.example.com')
+}));
+
+const makeAdtRequestMock = makeAdtRequest as jest.MockedFunction<typeof makeAdtRequest>;
+
+const PROGRAMS: SearchObject[] = ['ZPROG_A', 'ZPROG_B', 'ZPROG_C'].map(name => ({
+  name,
+  type: 'PROG/P',
+  uri: `/sap/bc/adt/programs/programs/${name.toLowerCase()}`
+}));
+
+const OPTIONS = { pattern: /select/i, contextLines: 0, maxResults: 3, concurrency: 3 };
+
+const httpError = (status: number) => new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined,
+  { status, statusText: '', headers: {}, config: {} as any, data: '' });
+
+/**
+ * Answers source reads with two matching lines per program; the sources of
+ * earlier programs take longer, so they finish last
+ */
+function mockSources(codeSearch: () => Promise<any> = async () => { throw httpError(404); }) {
+  makeAdtRequestMock.mockImplementation(async url => {
+    if (String(url).includes('/textsearch')) {
+      return codeSearch();
+    }
+    const name = String(url).match(/programs\/programs\/(\w+)/)![1].toUpperCase();
+    await new Promise(resolve => setTimeout(resolve, 30 - PROGRAMS.findIndex(p => p.name === name) * 10));
+    return { data: `REPORT ${name}.\nSELECT * FROM mara.\nWRITE 'x'.\nSELECT * FROM marc.` } as any;
+  });
+}
+
+describe('searchSources', () => {
+  beforeEach(() => {
+    makeAdtRequestMock.mockReset();
+  });
+
+  it('returns the first matches by object, include and line when truncated', async () => {
+    mockSources();
+
+    const result = await searchSources(PROGRAMS, OPTIONS);
+
+    expect(result).toMatchObject({ method: 'scan', searchedSources: 3, truncated: true });
+    expect(result.matches.map(m => [m.object, m.line])).toEqual([['ZPROG_A', 2], ['ZPROG_A', 4], ['ZPROG_B', 2]]);
+  });
+
+  it('is not truncated when exactly maxResults lines match', async () => {
+    mockSources();
+
+    const result = await searchSources(PROGRAMS.slice(0, 2), { ...OPTIONS, maxResults: 4 });
+
+    expect(result.truncated).toBe(false);
+    expect(result.matches).toHaveLength(4);
+  });
+});
+
+describe('searchWithCodeSearch', () => {
+  beforeEach(() => {
+    makeAdtRequestMock.mockReset();
+  });
+
+  it('reads only the sources found by the code search', async () => {
+    mockSources(async () => ({
+      data: `<tsr:textSearchResult xmlns:tsr="http://www.sap.com/adt/textsearch" xmlns:adtcore="http://www.sap.com/adt/core">
+  <tsr:textSearchObject>
+    <tsr:adtMainObject adtcore:uri="/sap/bc/adt/programs/programs/zprog_b" adtcore:name="ZPROG_B"/>
+    <tsr:textLines><tsr:textLine uri="/sap/bc/adt/programs/programs/zprog_b/source/main#start=2,0"/></tsr:textLines>
+  </tsr:textSearchObject>
+</tsr:textSearchResult>`
+    }));
+
+    const result = await searchWithCodeSearch(['ZSALES'], 'select', PROGRAMS, { ...OPTIONS, maxResults: 10 });
+
+    expect(result).toMatchObject({ method: 'codeSearch', searchedSources: 1, truncated: false });
+    expect(result.matches.map(m => [m.object, m.line])).toEqual([['ZPROG_B', 2], ['ZPROG_B', 4]]);
+  });
+
+  it.each([400, 403, 404, 500, 501])('falls back to reading all sources when the code search fails with %i', async status => {
+    mockSources(async () => { throw httpError(status); });
+
+    const result = await searchWithCodeSearch(['ZSALES'], 'select', PROGRAMS, OPTIONS);
+
+    expect(result).toMatchObject({ method: 'scan', searchedSources: 3, codeSearchError: `HTTP ${status}: Request failed with status code ${status}` });
+  });
+
+  it('fails on authentication errors', async () => {
+    mockSources(async () => { throw httpError(401); });
+
+    await expect(searchWithCodeSearch(['ZSALES'], 'select', PROGRAMS, OPTIONS)).rejects.toThrow('status code 401');
+  });
+});
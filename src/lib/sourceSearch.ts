@@ -0,0 +1,275 @@
+/**
+ * Full-text search in ABAP sources: collects the sources of a package tree
+ * or an object list and searches them line by line. Where the backend code
+ * search service is available it narrows down the sources to read.
+ */
+
+import axios from 'axios';
+import { makeAdtRequest, getBaseUrl } from './utils';
+import { fetchNodeStructure, walkPackageTree } from './nodeStructure';
+import { mapConcurrent } from './concurrency';
+import { normalizeXml } from './responseNormalizer';
+import { toArray } from './adtXml';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface SearchObject {
+  name: string;
+  type: string;           // ADT type, e.g. CLAS/OC, PROG/P, FUGR/F
+  uri: string;            // ADT object URI without host
+}
+
+export interface SourceMatch {
+  object: string;
+  type: string;
+  include: string;        // Include or part of the object, e.g. testclasses, a function module
+  uri: string;            // ADT URI of the source with the line position
+  line: number;
+  text: string;
+  before: string[];       // Context lines
+  after: string[];
+}
+
+export interface SourceSearchOptions {
+  pattern: RegExp;
+  contextLines: number;
+  maxResults: number;
+  concurrency: number;
+}
+
+export interface SourceSearchResult {
+  method: 'codeSearch' | 'scan';   // Sources found by the backend code search, or all sources read
+  searchedObjects: number;
+  searchedSources: number;
+  unreadableSources: number;   // Sources that could not be read, e.g. missing includes
+  truncated: boolean;          // maxResults was reached
+  codeSearchError?: string;    // Why the code search could not be used and all sources were read
+  matches: SourceMatch[];
+}
+
+interface SourceUnit {
+  object: SearchObject;
+  include: string;
+  uri: string;
+}
+
+// Class-local includes searched next to the main source
+const CLASS_INCLUDES = ['definitions', 'implementations', 'testclasses', 'macros'];
+
+export interface PackageObjects {
+  packages: string[];
+  objects: SearchObject[];
+  truncated: boolean;     // Not all subpackages were visited
+}
+
+// Hits requested from the code search service per package
+const MAX_CODE_SEARCH_HITS = 1000;
+
+// Object types with a source; function groups are searched through their modules and includes
+export const SEARCHABLE_TYPES = ['PROG/P', 'PROG/I', 'CLAS/OC', 'INTF/OI', 'FUGR/F', 'FUGR/FF', 'FUGR/I', 'DDLS/DF', 'DDLX/EX', 'DCLS/DL', 'TABL/DT', 'TABL/DS'];
+
+// ============================================================================
+// Collecting Objects
+// ============================================================================
+
+/**
+ * Lists the source-based objects of a package, optionally with its subpackages
+ *
+ * @param types ADT types to include, default: all searchable types
+ */
+export async function collectPackageObjects(packageName: string, includeSubpackages: boolean, types: string[] = SEARCHABLE_TYPES): Promise<PackageObjects> {
+  const tree = includeSubpackages
+    ? await walkPackageTree(packageName)
+    : { packages: [{ packageName: packageName.toUpperCase(), nodes: await fetchNodeStructure('DEVC/K', packageName) }], truncated: false };
+  return {
+    packages: tree.packages.map(p => p.packageName),
+    objects: tree.packages
+      .flatMap(p => p.nodes)
+      .filter(node => types.includes(node.type))
+      .map(node => ({ name: node.name, type: node.type, uri: node.uri })),
+    truncated: tree.truncated
+  };
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Searches the sources of the objects, reading at most options.concurrency
+ * sources at a time
+ */
+export async function searchSources(objects: SearchObject[], options: SourceSearchOptions): Promise<SourceSearchResult> {
+  const result = emptyResult('scan', objects.length);
+  const units = (await mapConcurrent(objects, options.concurrency, object => sourceUnits(object).catch(() => {
+    result.unreadableSources++;
+    return [];
+  }))).flat();
+  return scanUnits(units, result, options);
+}
+
+/**
+ * Searches the sources of the objects with the help of the backend code
+ * search: the service lists the sources containing the text, only those are
+ * read and searched line by line. If the service is missing or fails, e.g.
+ * without a search index, all sources are read as in searchSources.
+ *
+ * @param packages Packages to query the service for
+ * @param searchString Plain text; regular expressions are not supported by the service
+ * @param objects Objects in scope, hits in other objects are ignored
+ */
+export async function searchWithCodeSearch(
+  packages: string[],
+  searchString: string,
+  objects: SearchObject[],
+  options: SourceSearchOptions
+): Promise<SourceSearchResult> {
+  let hits: string[][];
+  try {
+    hits = await mapConcurrent(packages, options.concurrency, packageName => codeSearch(packageName, searchString));
+  } catch (error: any) {
+    // Failed logons would fail the scan as well
+    if (axios.isAxiosError(error) && error.response?.status === 401) {
+      throw error;
+    }
+    const status = axios.isAxiosError(error) && error.response ? `HTTP ${error.response.status}: ` : '';
+    return { ...await searchSources(objects, options), codeSearchError: `${status}${error.message}` };
+  }
+
+  const result = emptyResult('codeSearch', objects.length);
+  result.truncated = hits.some(packageHits => packageHits.length >= MAX_CODE_SEARCH_HITS);
+  const units = new Map<string, SourceUnit>();
+  for (const uri of hits.flat()) {
+    const sourceUri = sourceOf(uri.replace(/#.*$/, ''));
+    const object = objects.find(o => sourceUri === o.uri || sourceUri.startsWith(`${o.uri}/`));
+    if (object && !units.has(sourceUri)) {
+      units.set(sourceUri, { object, include: includeName(object, sourceUri), uri: sourceUri });
+    }
+  }
+  return scanUnits([...units.values()], result, options);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function emptyResult(method: SourceSearchResult['method'], searchedObjects: number): SourceSearchResult {
+  return {
+    method,
+    searchedObjects,
+    searchedSources: 0,
+    unreadableSources: 0,
+    truncated: false,
+    matches: []
+  };
+}
+
+/**
+ * Reads the sources, at most options.concurrency at a time, and collects the
+ * matching lines. Sources finish in any order, so the matches are sorted before
+ * maxResults is applied; the result is the same on every run.
+ */
+async function scanUnits(units: SourceUnit[], result: SourceSearchResult, options: SourceSearchOptions): Promise<SourceSearchResult> {
+  const unitMatches = await mapConcurrent(units, options.concurrency, async unit => {
+    let source: string;
+    try {
+      const response = await makeAdtRequest(`${await getBaseUrl()}${unit.uri}`, 'GET', 30000);
+      source = String(response.data);
+    } catch {
+      result.unreadableSources++;
+      return [];
+    }
+    result.searchedSources++;
+
+    // One more than maxResults per source is enough to know the result is truncated
+    const matches: SourceMatch[] = [];
+    const lines = source.split(/\r?\n/);
+    for (let index = 0; index < lines.length && matches.length <= options.maxResults; index++) {
+      if (!options.pattern.test(lines[index])) {
+        continue;
+      }
+      matches.push({
+        object: unit.object.name,
+        type: unit.object.type,
+        include: unit.include,
+        uri: `${unit.uri}#start=${index + 1},0`,
+        line: index + 1,
+        text: lines[index],
+        before: lines.slice(Math.max(0, index - options.contextLines), index),
+        after: lines.slice(index + 1, index + 1 + options.contextLines)
+      });
+    }
+    return matches;
+  });
+
+  const matches = unitMatches.flat()
+    .sort((a, b) => a.object.localeCompare(b.object) || a.include.localeCompare(b.include) || a.line - b.line);
+  result.truncated = result.truncated || matches.length > options.maxResults;
+  result.matches = matches.slice(0, options.maxResults);
+  return result;
+}
+
+/**
+ * Queries the code search service for the sources of a package containing
+ * the text. The service answers with the matching objects and a link per
+ * matching line, e.g. .../zcl_foo/includes/testclasses#start=12,4.
+ *
+ * @returns The URIs of the matching lines
+ */
+async function codeSearch(packageName: string, searchString: string): Promise<string[]> {
+  const url = `${await getBaseUrl()}/sap/bc/adt/repository/informationsystem/textsearch`;
+  const response = await makeAdtRequest(url, 'GET', 60000, undefined, {
+    searchString,
+    packageName,
+    searchFromIndex: 1,
+    searchToIndex: MAX_CODE_SEARCH_HITS
+  });
+  const json = normalizeXml(response.data);
+  return toArray(json.textSearchObject).flatMap(object => [
+    ...toArray(object.textLines?.textLine),
+    ...toArray(object.subObjects?.subObject).flatMap(sub => toArray(sub.textLines?.textLine))
+  ]).map(line => line.uri).filter(Boolean);
+}
+
+/**
+ * Completes a hit URI to the URI of its source; class includes have no /source/main
+ */
+function sourceOf(uri: string): string {
+  return /\/source\/main$|\/oo\/classes\/[^/]+\/includes\/[^/]+$/.test(uri) ? uri : `${uri}/source/main`;
+}
+
+/**
+ * Names a source of an object the way sourceUnits does
+ */
+function includeName(object: SearchObject, sourceUri: string): string {
+  const classInclude = sourceUri.match(/\/includes\/([^/]+)$/);
+  if (object.type === 'CLAS/OC') {
+    return classInclude ? classInclude[1] : 'main';
+  }
+  const part = sourceUri.replace(/\/source\/main$/, '');
+  return part === object.uri ? object.name : decodeURIComponent(part.split('/').pop()!).toUpperCase();
+}
+
+/**
+ * Lists the sources of an object: classes with their local includes,
+ * function groups with their function modules and includes
+ */
+async function sourceUnits(object: SearchObject): Promise<SourceUnit[]> {
+  switch (object.type) {
+    case 'CLAS/OC':
+      return [
+        { object, include: 'main', uri: `${object.uri}/source/main` },
+        ...CLASS_INCLUDES.map(include => ({ object, include, uri: `${object.uri}/includes/${include}` }))
+      ];
+    case 'FUGR/F': {
+      const nodes = await fetchNodeStructure('FUGR/F', object.name);
+      return nodes
+        .filter(node => ['FUGR/FF', 'FUGR/I', 'PROG/I'].includes(node.type))
+        .map(node => ({ object, include: node.name, uri: `${node.uri}/source/main` }));
+    }
+    default:
+      return [{ object, include: object.name, uri: `${object.uri}/source/main` }];
+  }
+}
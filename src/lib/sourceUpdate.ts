@@ -0,0 +1,182 @@
+/**
+ * Lock / write / unlock lifecycle for ABAP objects via ADT REST API, and deletion
+ */
+
+import convert from 'xml-js';
+import { makeAdtRequest, getBaseUrl } from './utils';
+import { activateObject, formatActivationResult } from './activation';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface LockResult {
+  lockHandle: string;
+  transportRequest?: string;   // Transport the object is already locked in, if any
+}
+
+export interface UpdateSourceOptions {
+  transportRequest?: string;
+  activate?: boolean;
+}
+
+// Locks are bound to the ADT session, so every request of the lifecycle must be stateful
+const STATEFUL_HEADERS = {
+  'X-sap-adt-sessiontype': 'stateful'
+};
+
+// ============================================================================
+// Lock Handling
+// ============================================================================
+
+/**
+ * Acquires a modification lock on an ABAP object
+ *
+ * @param objectUri ADT object URI without host (e.g. /sap/bc/adt/oo/classes/zcl_foo)
+ */
+export async function lockObject(objectUri: string): Promise<LockResult> {
+  const url = `${await getBaseUrl()}${objectUri}`;
+  const response = await makeAdtRequest(url, 'POST', 30000, undefined, {
+    '_action': 'LOCK',
+    'accessMode': 'MODIFY'
+  }, {
+    ...STATEFUL_HEADERS,
+    'Accept': 'application/vnd.sap.as+xml;charset=UTF-8;dataname=com.sap.adt.lock.result;q=0.8, application/vnd.sap.as+xml;charset=UTF-8;dataname=com.sap.adt.lock.result2;q=0.9'
+  });
+
+  const result = convert.xml2js(response.data, { compact: true }) as any;
+  const data = result["asx:abap"]?.["asx:values"]?.DATA;
+  const lockHandle = data?.LOCK_HANDLE?._text;
+  if (!lockHandle) {
+    throw new Error(`Failed to lock ${objectUri}: no lock handle in response`);
+  }
+
+  return {
+    lockHandle,
+    transportRequest: data?.CORRNR?._text
+  };
+}
+
+/**
+ * Releases a lock previously acquired with lockObject
+ */
+export async function unlockObject(objectUri: string, lockHandle: string) {
+  const url = `${await getBaseUrl()}${objectUri}`;
+  await makeAdtRequest(url, 'POST', 30000, undefined, {
+    '_action': 'UNLOCK',
+    'lockHandle': lockHandle
+  }, STATEFUL_HEADERS);
+}
+
+// ============================================================================
+// Source Update
+// ============================================================================
+
+/**
+ * Replaces the main source of an object: lock, PUT /source/main, unlock.
+ * The lock is released again also when the upload fails.
+ * Optionally activates the object after a successful upload.
+ *
+ * @param objectUri ADT object URI without host (e.g. /sap/bc/adt/programs/programs/zfoo)
+ * @param objectName Object name, used for activation
+ * @param source New source code
+ * @returns A human readable summary of what was done
+ */
+export async function updateSource(
+  objectUri: string,
+  objectName: string,
+  source: string,
+  options: UpdateSourceOptions = {}
+): Promise<string> {
+  const sourceUrl = `${await getBaseUrl()}${objectUri}/source/main`;
+  await writeLocked(objectUri, sourceUrl, source, 'text/plain; charset=utf-8', options.transportRequest);
+
+  if (!options.activate) {
+    return `✅ Source of ${objectName} updated successfully (inactive version)`;
+  }
+
+  const activation = await activateObject(objectUri, objectName);
+  if (!activation.activated) {
+    throw new Error(`Source of ${objectName} was saved but activation failed:\n${formatActivationResult(activation)}`);
+  }
+  return `✅ Source of ${objectName} updated and activated successfully`;
+}
+
+/**
+ * Replaces the XML definition of an object without source (e.g. domains and
+ * data elements): lock, PUT to the object URI, unlock.
+ *
+ * @param objectUri ADT object URI without host (e.g. /sap/bc/adt/ddic/domains/zfoo)
+ * @param xml Complete object XML
+ * @param contentType Content type of the object XML
+ */
+export async function updateDefinition(
+  objectUri: string,
+  xml: string,
+  contentType: string,
+  transportRequest?: string
+) {
+  await writeLocked(objectUri, `${await getBaseUrl()}${objectUri}`, xml, contentType, transportRequest);
+}
+
+// ============================================================================
+// Deletion
+// ============================================================================
+
+/**
+ * Deletes an object: lock, DELETE the object URI. The lock goes away with
+ * the object, it is only released when the deletion fails.
+ *
+ * @param objectUri ADT object URI without host (e.g. /sap/bc/adt/programs/programs/zfoo)
+ * @param transportRequest Transport to record the deletion in, required for non-local objects
+ */
+export async function deleteObject(objectUri: string, transportRequest?: string) {
+  const lock = await lockObject(objectUri);
+
+  try {
+    const params: Record<string, string> = {
+      'lockHandle': lock.lockHandle
+    };
+    const corrNr = transportRequest || lock.transportRequest;
+    if (corrNr) {
+      params['corrNr'] = corrNr;
+    }
+
+    await makeAdtRequest(`${await getBaseUrl()}${objectUri}`, 'DELETE', 30000, undefined, params, STATEFUL_HEADERS);
+  } catch (error) {
+    await unlockObject(objectUri, lock.lockHandle).catch(() => undefined);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * PUTs a body while holding the lock of the object.
+ * The lock is released again also when the upload fails.
+ */
+async function writeLocked(objectUri: string, url: string, body: string, contentType: string, transportRequest?: string) {
+  const lock = await lockObject(objectUri);
+
+  try {
+    const params: Record<string, string> = {
+      'lockHandle': lock.lockHandle
+    };
+    const corrNr = transportRequest || lock.transportRequest;
+    if (corrNr) {
+      params['corrNr'] = corrNr;
+    }
+
+    await makeAdtRequest(url, 'PUT', 30000, body, params, {
+      ...STATEFUL_HEADERS,
+      'Content-Type': contentType
+    });
+  } catch (error) {
+    // Release the lock but report the upload error, not a follow-up unlock failure
+    await unlockObject(objectUri, lock.lockHandle).catch(() => undefined);
+    throw error;
+  }
+  await unlockObject(objectUri, lock.lockHandle);
+}
@@ -0,0 +1,166 @@
+/**
+ * Named SAP connection profiles (DEV, QAS, sandbox, ...)
+ *
+ * Profiles are read from a JSON file (SAP_SYSTEMS_FILE, default: systems.json
+ * in the project root). Without such a file the single system configured via
+ * the SAP_* environment variables is available as profile "default".
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+// Interface for SAP configuration
+export interface SapConfig {
+  url: string;
+  username: string;
+  password: string;
+  client: string;
+}
+
+export interface SapSystem extends SapConfig {
+  description?: string;
+}
+
+interface SystemsFile {
+  default?: string;                     // Profile used when a tool call names no system
+  systems: Record<string, SapSystem>;
+}
+
+export interface SystemInfo {
+  name: string;
+  url: string;
+  client: string;
+  username: string;
+  description?: string;
+  isDefault: boolean;
+}
+
+const ENV_SYSTEM_NAME = 'default';
+
+let systems: Record<string, SapSystem> | undefined;
+let defaultSystem: string | undefined;
+
+// ============================================================================
+// Profile Access
+// ============================================================================
+
+/**
+ * Retrieves SAP configuration from environment variables.
+ * Used as the single "default" system when no systems file is configured.
+ *
+ * @returns {SapConfig} The SAP configuration object.
+ * @throws {Error} If any required environment variable is missing.
+ */
+export function getConfig(): SapConfig {
+  const url = process.env.SAP_URL;
+  const username = process.env.SAP_USERNAME;
+  const password = process.env.SAP_PASSWORD;
+  const client = process.env.SAP_CLIENT;
+
+  // Check if all required environment variables are set
+  if (!url || !username || !password || !client) {
+    throw new Error(`Missing required environment variables. Required variables:
+- SAP_URL
+- SAP_USERNAME
+- SAP_PASSWORD
+- SAP_CLIENT`);
+  }
+
+  return { url, username, password, client };
+}
+
+/**
+ * Resolves a connection profile by name (case-insensitive).
+ *
+ * @param name Profile name; the default profile is used if omitted
+ * @throws {McpError} If no profile with that name is configured
+ */
+export function getSystemConfig(name?: string): { name: string; config: SapConfig } {
+  const profiles = loadSystems();
+  const requested = name || defaultSystem!;
+  const key = Object.keys(profiles).find(k => k.toUpperCase() === requested.toUpperCase());
+  if (!key) {
+    throw new McpError(ErrorCode.InvalidParams,
+      `Unknown system ${requested}. Configured systems: ${Object.keys(profiles).join(', ')}`);
+  }
+  return { name: key, config: profiles[key] };
+}
+
+/**
+ * Lists all configured profiles without their passwords
+ */
+export function listSystems(): SystemInfo[] {
+  const profiles = loadSystems();
+  return Object.entries(profiles).map(([name, system]) => ({
+    name,
+    url: system.url,
+    client: system.client,
+    username: system.username,
+    description: system.description,
+    isDefault: name === defaultSystem
+  }));
+}
+
+/**
+ * Forgets the loaded profiles so they are read again on next access
+ */
+export function resetSystems() {
+  systems = undefined;
+  defaultSystem = undefined;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function getSystemsFilePath(): string {
+  return process.env.SAP_SYSTEMS_FILE
+    ? path.resolve(process.env.SAP_SYSTEMS_FILE)
+    : path.resolve(__dirname, '../../systems.json');
+}
+
+/**
+ * Loads the profiles once, from the systems file if present, else from the environment
+ */
+function loadSystems(): Record<string, SapSystem> {
+  if (systems) {
+    return systems;
+  }
+
+  const filePath = getSystemsFilePath();
+  if (!fs.existsSync(filePath)) {
+    systems = { [ENV_SYSTEM_NAME]: getConfig() };
+    defaultSystem = ENV_SYSTEM_NAME;
+    return systems;
+  }
+
+  let parsed: SystemsFile;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid systems file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const names = Object.keys(parsed?.systems || {});
+  if (names.length === 0) {
+    throw new Error(`Systems file ${filePath} does not define any systems`);
+  }
+  for (const name of names) {
+    const { url, username, password, client } = parsed.systems[name];
+    if (!url || !username || !password || !client) {
+      throw new Error(`System ${name} in ${filePath} must define url, username, password and client`);
+    }
+  }
+  if (parsed.default && !names.includes(parsed.default)) {
+    throw new Error(`Default system ${parsed.default} is not defined in ${filePath}`);
+  }
+
+  systems = parsed.systems;
+  defaultSystem = parsed.default || names[0];
+  return systems;
+}
@@ -0,0 +1,195 @@
+/**
+ * Transport request (CTS) access via ADT REST API
+ */
+
+import convert from 'xml-js';
+import { makeAdtRequest, getBaseUrl } from './utils';
+import { toArray, toSeverity, escapeXml, MessageSeverity } from './adtXml';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface TransportObject {
+  pgmid: string;          // e.g. R3TR, LIMU
+  type: string;           // e.g. CLAS, TABL
+  name: string;
+  info?: string;          // Object type description
+}
+
+export interface TransportTask {
+  number: string;
+  owner: string;
+  description: string;
+  status: string;         // D = modifiable, R = released
+  objects: TransportObject[];
+}
+
+export interface TransportRequest extends TransportTask {
+  type: 'workbench' | 'customizing';
+  target?: string;        // Target system of the transport route
+  tasks: TransportTask[];
+}
+
+export interface ReleaseMessage {
+  severity: MessageSeverity;
+  text: string;
+}
+
+export interface ReleaseResult {
+  number: string;
+  released: boolean;
+  messages: ReleaseMessage[];
+}
+
+const ORGANIZER_ACCEPT = 'application/vnd.sap.adt.transportorganizer.v1+xml';
+
+// ============================================================================
+// Transport Requests
+// ============================================================================
+
+/**
+ * Lists the transport requests of a user, grouped per target in the ADT
+ * organizer tree and returned here as a flat list
+ */
+export async function listTransports(user: string): Promise<TransportRequest[]> {
+  const url = `${await getBaseUrl()}/sap/bc/adt/cts/transportrequests`;
+  const response = await makeAdtRequest(url, 'GET', 30000, undefined, { user, targets: true }, {
+    'Accept': 'application/vnd.sap.adt.transportorganizertree.v1+xml'
+  });
+
+  const xml = convert.xml2js(response.data, { compact: true }) as any;
+  const root = xml['tm:root'] || {};
+  const requests: TransportRequest[] = [];
+  for (const [category, type] of [['tm:workbench', 'workbench'], ['tm:customizing', 'customizing']] as const) {
+    for (const target of toArray(root[category]?.['tm:target'])) {
+      const targetName = target._attributes?.['tm:name'];
+      for (const state of ['tm:modifiable', 'tm:released']) {
+        for (const request of toArray(target[state]?.['tm:request'])) {
+          requests.push(parseRequest(request, type, targetName));
+        }
+      }
+    }
+  }
+  return requests;
+}
+
+/**
+ * Reads a single transport request with its tasks and objects
+ */
+export async function getTransport(number: string): Promise<TransportRequest> {
+  const url = `${await getBaseUrl()}/sap/bc/adt/cts/transportrequests/${encodeURIComponent(number)}`;
+  const response = await makeAdtRequest(url, 'GET', 30000, undefined, undefined, {
+    'Accept': ORGANIZER_ACCEPT
+  });
+
+  const xml = convert.xml2js(response.data, { compact: true }) as any;
+  const root = xml['tm:root'] || {};
+  const request = root['tm:request'];
+  if (!request) {
+    throw new Error(`Transport request ${number} not found`);
+  }
+  // Request type K = workbench, W = customizing
+  const type = request._attributes?.['tm:type'] === 'W' ? 'customizing' : 'workbench';
+  return parseRequest(request, type, request._attributes?.['tm:target']);
+}
+
+/**
+ * Creates a workbench request for objects of a package
+ *
+ * @param packageName Package the request is for
+ * @param description Short text of the request
+ * @param objectUri Object the request is created for, the package itself if omitted
+ * @returns The number of the new request
+ */
+export async function createTransport(packageName: string, description: string, objectUri?: string): Promise<string> {
+  const url = `${await getBaseUrl()}/sap/bc/adt/cts/transports`;
+  const ref = objectUri || `/sap/bc/adt/packages/${encodeURIComponent(packageName.toLowerCase())}`;
+  const body = `<?xml version="1.0" encoding="ASCII"?>
+<asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0">
+  <asx:values>
+    <DATA>
+      <OPERATION>I</OPERATION>
+      <DEVCLASS>${escapeXml(packageName.toUpperCase())}</DEVCLASS>
+      <REQUEST_TEXT>${escapeXml(description)}</REQUEST_TEXT>
+      <REF>${escapeXml(ref)}</REF>
+    </DATA>
+  </asx:values>
+</asx:abap>`;
+
+  const response = await makeAdtRequest(url, 'POST', 30000, body, undefined, {
+    'Content-Type': 'application/vnd.sap.as+xml; charset=UTF-8; dataname=com.sap.adt.CreateCorrectionRequest',
+    'Accept': 'text/plain'
+  });
+
+  // The response is the record URI, e.g. /com.sap.cts/object_record/DEVK900123
+  const number = String(response.data).trim().split('/').pop();
+  if (!number) {
+    throw new Error(`Unexpected response when creating transport request: ${response.data}`);
+  }
+  return number;
+}
+
+/**
+ * Releases a transport request or task
+ */
+export async function releaseTransport(number: string): Promise<ReleaseResult> {
+  const url = `${await getBaseUrl()}/sap/bc/adt/cts/transportrequests/${encodeURIComponent(number)}/newreleasejobs`;
+  const response = await makeAdtRequest(url, 'POST', 120000, undefined, undefined, {
+    'Accept': ORGANIZER_ACCEPT
+  });
+
+  const xml = convert.xml2js(response.data, { compact: true }) as any;
+  const reports = toArray(xml['tm:root']?.['tm:releasereports']?.['chkrun:checkReport']);
+  const messages: ReleaseMessage[] = [];
+  let released = reports.length > 0;
+  for (const report of reports) {
+    if (report._attributes?.['chkrun:status'] !== 'released') {
+      released = false;
+    }
+    for (const msg of toArray(report['chkrun:checkMessageList']?.['chkrun:checkMessage'])) {
+      messages.push({
+        severity: toSeverity(msg._attributes?.['chkrun:type']),
+        text: msg._attributes?.['chkrun:shortText'] || ''
+      });
+    }
+  }
+  return { number, released, messages };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function parseObjects(node: any): TransportObject[] {
+  return toArray(node['tm:abap_object']).map(o => ({
+    pgmid: o._attributes?.['tm:pgmid'],
+    type: o._attributes?.['tm:type'],
+    name: o._attributes?.['tm:name'],
+    info: o._attributes?.['tm:obj_info']
+  }));
+}
+
+function parseTask(node: any): TransportTask {
+  const attributes = node._attributes || {};
+  return {
+    number: attributes['tm:number'],
+    owner: attributes['tm:owner'],
+    description: attributes['tm:desc'],
+    status: attributes['tm:status'],
+    objects: parseObjects(node)
+  };
+}
+
+function parseRequest(node: any, type: TransportRequest['type'], target?: string): TransportRequest {
+  const tasks = toArray(node['tm:task']).map(parseTask);
+  const objects = parseObjects(node['tm:all_objects'] || node);
+  return {
+    ...parseTask(node),
+    // Requests list their objects per task; collect them when there is no own list
+    objects: objects.length > 0 ? objects : tasks.flatMap(t => t.objects),
+    type,
+    target,
+    tasks
+  };
+}
@@ -2,7 +2,8 @@ import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import axios, { AxiosError, AxiosInstance } from 'axios';
 import { Agent } from 'https';
 import { AxiosResponse } from 'axios';
-import { getConfig, SapConfig } from '../index'; // getConfig needs to be exported from index.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import { getSystemConfig, resetSystems, SapConfig } from './systems';
 
 export { McpError, ErrorCode, AxiosResponse };
 
@@ -27,42 +28,100 @@ export function return_error(error: any) {
     };
 }
 
-let axiosInstance: AxiosInstance | null = null;
-export function createAxiosInstance() {
-    if (!axiosInstance) {
-        axiosInstance = axios.create({
+/**
+ * Connection state of one SAP system. Every profile gets its own axios
+ * instance, CSRF token and cookies so sessions never leak between systems.
+ */
+interface AdtConnection {
+    config: SapConfig;
+    axiosInstance: AxiosInstance;
+    csrfToken: string | null;
+    cookies: string | null;
+}
+
+interface SystemSelection {
+    name: string;
+    config: SapConfig;
+    connection?: AdtConnection;   // Ad-hoc connections live only for one tool call
+}
+
+const connections = new Map<string, AdtConnection>();
+// The system a tool call targets, set per call by runWithSystem
+const systemContext = new AsyncLocalStorage<SystemSelection>();
+
+/**
+ * Runs fn with all ADT requests directed at the given connection profile.
+ *
+ * @param system Profile name; the default profile is used if omitted
+ * @throws {McpError} If the profile is not configured
+ */
+export async function runWithSystem<T>(system: string | undefined, fn: () => Promise<T>): Promise<T> {
+    return systemContext.run(getSystemConfig(system), fn);
+}
+
+/**
+ * Runs fn with all ADT requests directed at an explicitly given system that
+ * is not configured as a profile (e.g. a second system for comparisons).
+ * The connection is not cached: a later call with corrected credentials
+ * must not reuse the session of a failed one.
+ */
+export async function runWithConfig<T>(config: SapConfig, fn: () => Promise<T>): Promise<T> {
+    const name = `adhoc:${config.username}@${config.url}/${config.client}`;
+    return systemContext.run({ name, config, connection: createConnection(config) }, fn);
+}
+
+function getConnection(): AdtConnection {
+    const selection: SystemSelection = systemContext.getStore() || getSystemConfig();
+    if (selection.connection) {
+        return selection.connection;
+    }
+    let connection = connections.get(selection.name);
+    if (!connection) {
+        connection = createConnection(selection.config);
+        connections.set(selection.name, connection);
+    }
+    return connection;
+}
+
+function createConnection(config: SapConfig): AdtConnection {
+    return {
+        config,
+        axiosInstance: axios.create({
             httpsAgent: new Agent({
                 rejectUnauthorized: false // Allow self-signed certificates
             })
-        });
-    }
-    return axiosInstance;
+        }),
+        csrfToken: null,
+        cookies: null
+    };
+}
+
+/**
+ * Returns the configuration of the system the current tool call targets
+ */
+export function getSapConfig(): SapConfig {
+    return getConnection().config;
+}
+
+export function createAxiosInstance() {
+    return getConnection().axiosInstance;
 }
 
 // Cleanup function for tests
 export function cleanup() {
-    if (axiosInstance) {
+    for (const { axiosInstance } of connections.values()) {
         // Clear any interceptors
         const reqInterceptor = axiosInstance.interceptors.request.use((config) => config);
         const resInterceptor = axiosInstance.interceptors.response.use((response) => response);
         axiosInstance.interceptors.request.eject(reqInterceptor);
         axiosInstance.interceptors.response.eject(resInterceptor);
     }
-    axiosInstance = null;
-    config = undefined;
-    csrfToken = null;
-    cookies = null;
+    connections.clear();
+    resetSystems();
 }
 
-let config: SapConfig | undefined;
-let csrfToken: string | null = null;
-let cookies: string | null = null; // Variable to store cookies
-
 export async function getBaseUrl() {
-    if (!config) {
-        config = getConfig();
-    }
-    const { url } = config;
+    const { url } = getConnection().config;
     try {
         const urlObj = new URL(url);
         const baseUrl = Buffer.from(`${urlObj.origin}`);
@@ -74,10 +133,7 @@ export async function getBaseUrl() {
 }
 
 export async function getAuthHeaders() {
-    if (!config) {
-        config = getConfig();
-    }
-    const { username, password, client } = config;
+    const { username, password, client } = getConnection().config;
     const auth = Buffer.from(`${username}:${password}`).toString('base64'); // Create Basic Auth string
     return {
         'Authorization': `Basic ${auth}`, // Basic Authentication header
@@ -102,9 +158,7 @@ async function fetchCsrfToken(url: string): Promise<string> {
         }
 
         // Extract and store cookies
-        if (response.headers['set-cookie']) {
-            cookies = response.headers['set-cookie'].join('; ');
-        }
+        storeCookies(response.headers['set-cookie']);
 
         return token;
     } catch (error) {
@@ -113,9 +167,7 @@ async function fetchCsrfToken(url: string): Promise<string> {
             const token = error.response.headers['x-csrf-token'];
             if (token) {
                  // Extract and store cookies from the error response as well
-                if (error.response.headers['set-cookie']) {
-                    cookies = error.response.headers['set-cookie'].join('; ');
-                }
+                storeCookies(error.response.headers['set-cookie']);
                 return token;
             }
         }
@@ -124,28 +176,53 @@ async function fetchCsrfToken(url: string): Promise<string> {
     }
 }
 
-export async function makeAdtRequest(url: string, method: string, timeout: number, data?: any, params?: any) {
-    // For POST/PUT requests, ensure we have a CSRF token
-    if ((method === 'POST' || method === 'PUT') && !csrfToken) {
+/**
+ * Merges Set-Cookie headers into the stored cookie string, replacing cookies
+ * with the same name. Stateful ADT sessions (e.g. object locks) rely on the
+ * session cookies returned by later responses, not only the CSRF fetch.
+ */
+function storeCookies(setCookie?: string[]) {
+    if (!setCookie || setCookie.length === 0) {
+        return;
+    }
+    const connection = getConnection();
+    const jar = new Map<string, string>();
+    for (const cookie of (connection.cookies ? connection.cookies.split('; ') : [])) {
+        jar.set(cookie.split('=')[0], cookie);
+    }
+    for (const header of setCookie) {
+        const cookie = header.split(';')[0];
+        jar.set(cookie.split('=')[0], cookie);
+    }
+    connection.cookies = Array.from(jar.values()).join('; ');
+}
+
+export async function makeAdtRequest(url: string, method: string, timeout: number, data?: any, params?: any, headers?: Record<string, string>) {
+    const connection = getConnection();
+    const modifying = method === 'POST' || method === 'PUT' || method === 'DELETE';
+
+    // For modifying requests, ensure we have a CSRF token
+    if (modifying && !connection.csrfToken) {
         try {
-            csrfToken = await fetchCsrfToken(url);
+            connection.csrfToken = await fetchCsrfToken(url);
         } catch (error) {
-            throw new Error('CSRF token is required for POST/PUT requests but could not be fetched');
+            throw new Error('CSRF token is required for POST/PUT/DELETE requests but could not be fetched');
         }
     }
 
     const requestHeaders = {
-        ...(await getAuthHeaders())
+        ...(await getAuthHeaders()),
+        ...headers
     };
 
-    // Add CSRF token for POST/PUT requests
-    if ((method === 'POST' || method === 'PUT') && csrfToken) {
-        requestHeaders['x-csrf-token'] = csrfToken;
+    // Add CSRF token for modifying requests
+    if (modifying && connection.csrfToken) {
+        requestHeaders['x-csrf-token'] = connection.csrfToken;
     }
 
     // Add cookies if available
-    if (cookies) {
-        requestHeaders['Cookie'] = cookies;
+    if (connection.cookies) {
+        requestHeaders['Cookie'] = connection.cookies;
     }
 
     const config: any = {
@@ -157,20 +234,26 @@ export async function makeAdtRequest(url: string, method: string, timeout: numbe
     };
 
     // Include data in the request configuration if provided
-    if (data) {
+    if (data !== undefined) {
         config.data = data;
     }
 
     try {
-        const response = await createAxiosInstance()(config);
+        const response = await connection.axiosInstance(config);
+        storeCookies(response.headers['set-cookie']);
         return response;
     } catch (error) {
         // If we get a 403 with "CSRF token validation failed", try to fetch a new token and retry
         if (error instanceof AxiosError && error.response?.status === 403 &&
             error.response.data?.includes('CSRF')) {
-            csrfToken = await fetchCsrfToken(url);
-            config.headers['x-csrf-token'] = csrfToken;
-            return await createAxiosInstance()(config);
+            connection.csrfToken = await fetchCsrfToken(url);
+            config.headers['x-csrf-token'] = connection.csrfToken;
+            if (connection.cookies) {
+                config.headers['Cookie'] = connection.cookies;
+            }
+            const response = await connection.axiosInstance(config);
+            storeCookies(response.headers['set-cookie']);
+            return response;
         }
         throw error;
     }
@@ -0,0 +1,62 @@
+/**
+ * Where-used lists via the ADT usage references endpoint
+ */
+
+import convert from 'xml-js';
+import { makeAdtRequest, getBaseUrl } from './utils';
+import { toArray } from './adtXml';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface UsageReference {
+  name: string;
+  type: string;           // ADT type, e.g. PROG/P, CLAS/OC
+  uri: string;
+  packageName?: string;
+  description?: string;
+  responsible?: string;
+  usageInformation?: string;   // e.g. gradeDirect,includeProductive
+}
+
+// ============================================================================
+// Where-Used
+// ============================================================================
+
+/**
+ * Returns all objects referencing the given object. Grouping nodes (packages
+ * the results are sorted into) are left out.
+ *
+ * @param objectUri ADT object URI without host (e.g. /sap/bc/adt/ddic/tables/zorders)
+ */
+export async function findUsageReferences(objectUri: string): Promise<UsageReference[]> {
+  const url = `${await getBaseUrl()}/sap/bc/adt/repository/informationsystem/usageReferences`;
+  const body = `<?xml version="1.0" encoding="UTF-8"?>
+<usagereferences:usageReferenceRequest xmlns:usagereferences="http://www.sap.com/adt/ris/usageReferences">
+  <usagereferences:affectedObjects/>
+</usagereferences:usageReferenceRequest>`;
+
+  const response = await makeAdtRequest(url, 'POST', 60000, body, { uri: objectUri }, {
+    'Content-Type': 'application/vnd.sap.adt.repository.usagereferences.request.v1+xml',
+    'Accept': 'application/vnd.sap.adt.repository.usagereferences.result.v1+xml'
+  });
+
+  const xml = convert.xml2js(response.data, { compact: true }) as any;
+  const result = xml['usageReferences:usageReferenceResult'];
+  return toArray(result?.['usageReferences:referencedObjects']?.['usageReferences:referencedObject'])
+    .filter(node => node._attributes?.isResult === 'true')
+    .map(node => {
+      const adtObject = node['usageReferences:adtObject'] || {};
+      const attributes = adtObject._attributes || {};
+      return {
+        name: attributes['adtcore:name'],
+        type: attributes['adtcore:type'],
+        uri: node._attributes.uri,
+        packageName: adtObject['adtcore:packageRef']?._attributes?.['adtcore:name'],
+        description: attributes['adtcore:description'],
+        responsible: attributes['adtcore:responsible'],
+        usageInformation: node._attributes.usageInformation
+      };
+    });
+}